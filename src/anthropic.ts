@@ -0,0 +1,145 @@
+/**
+ * Anthropic Messages 格式的公共工具函数,供各格式转换模块使用
+ */
+
+// 格式转换器的流式接口: 输入上游原始数据,输出Anthropic SSE文本
+export interface StreamTranslator {
+  push(chunk: Uint8Array | string): string;
+  end(): string;
+}
+
+// HTTP状态码对应的Anthropic错误类型
+export function anthropicErrorType(status: number): string {
+  switch (status) {
+    case 400: return 'invalid_request_error';
+    case 401: return 'authentication_error';
+    case 403: return 'permission_error';
+    case 404: return 'not_found_error';
+    case 413: return 'request_too_large';
+    case 429: return 'rate_limit_error';
+    case 503:
+    case 529: return 'overloaded_error';
+    default: return 'api_error';
+  }
+}
+
+// 构造Anthropic格式的错误响应体
+export function anthropicError(status: number, message: string): any {
+  return {
+    type: 'error',
+    error: {
+      type: anthropicErrorType(status),
+      message
+    }
+  };
+}
+
+// 上游错误响应体 -> Anthropic 错误响应 (兼容 {error:{message}} 和 {message} 两种写法)
+export function upstreamToAnthropicError(status: number, text: string): any {
+  let message = text;
+  try {
+    const parsed = JSON.parse(text);
+    message = parsed?.error?.message || parsed?.message || text;
+  } catch (e) {
+    // 非JSON错误体,直接使用原文
+  }
+  return anthropicError(status, message);
+}
+
+// 序列化一个Anthropic SSE事件
+export function sseEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// 提取system提示词文本 (string 或 text block数组)
+export function systemToText(system: any): string {
+  if (typeof system === 'string') {
+    return system;
+  }
+  if (Array.isArray(system)) {
+    return system
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text)
+      .join('\n\n');
+  }
+  return '';
+}
+
+// 生成随机ID (用于上游未提供id的message/tool_use)
+export function randomId(prefix: string): string {
+  return `${prefix}_${Math.random().toString(36).substring(2, 15)}`;
+}
+
+/**
+ * 将流式响应的SSE事件(data对象数组)重组为完整的message
+ * tool_use的input_json_delta拼接后解析为input,解析失败时保留原始字符串
+ */
+export function assembleStreamMessage(events: any[]): any {
+  let message: any = { type: 'message', role: 'assistant', content: [] };
+  const blocks: any[] = [];
+  const partialJson = new Map<number, string>();
+
+  const finishToolInput = (index: number) => {
+    const json = partialJson.get(index);
+    if (json === undefined || !blocks[index]) {
+      return;
+    }
+    try {
+      blocks[index].input = json ? JSON.parse(json) : {};
+    } catch (e) {
+      blocks[index].input = json;
+      blocks[index].invalid_input_json = true;
+    }
+    partialJson.delete(index);
+  };
+
+  for (const event of events) {
+    switch (event?.type) {
+      case 'message_start':
+        message = { ...event.message, content: [] };
+        break;
+      case 'content_block_start':
+        blocks[event.index] = { ...event.content_block };
+        if (event.content_block?.type === 'tool_use' || event.content_block?.type === 'server_tool_use') {
+          partialJson.set(event.index, '');
+        }
+        break;
+      case 'content_block_delta': {
+        const block = blocks[event.index];
+        const delta = event.delta || {};
+        if (!block) {
+          break;
+        }
+        if (delta.type === 'text_delta') {
+          block.text = (block.text || '') + delta.text;
+        } else if (delta.type === 'thinking_delta') {
+          block.thinking = (block.thinking || '') + delta.thinking;
+        } else if (delta.type === 'signature_delta') {
+          block.signature = delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          partialJson.set(event.index, (partialJson.get(event.index) || '') + delta.partial_json);
+        }
+        break;
+      }
+      case 'content_block_stop':
+        finishToolInput(event.index);
+        break;
+      case 'message_delta':
+        message.stop_reason = event.delta?.stop_reason ?? message.stop_reason;
+        message.stop_sequence = event.delta?.stop_sequence ?? message.stop_sequence;
+        message.usage = { ...(message.usage || {}), ...(event.usage || {}) };
+        break;
+      case 'error':
+        message.error = event.error;
+        break;
+    }
+  }
+
+  // 未收到content_block_stop的tool_use块
+  for (const index of Array.from(partialJson.keys())) {
+    finishToolInput(index);
+  }
+
+  message.content = blocks.filter(block => block !== undefined);
+  return message;
+}
@@ -0,0 +1,211 @@
+/**
+ * 费用/请求数预算
+ * 达到软限制时Main请求改用降级目标,达到硬限制时拒绝请求
+ */
+
+import * as vscode from 'vscode';
+import { UsageRecord, ModelPrice, readUsageRecords, getModelPrice, costWithPrice, getPriceTable, usageProvider } from './usage';
+
+export interface BudgetLimit {
+  name?: string;
+  provider?: string;  // 省略表示所有provider合计
+  period: 'daily' | 'monthly';
+  softLimit?: number;  // 费用软限制 (美元)
+  hardLimit?: number;  // 费用硬限制 (美元)
+  softRequests?: number;  // 请求数软限制
+  hardRequests?: number;  // 请求数硬限制
+}
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  limit: BudgetLimit;
+  label: string;
+  cost: number;
+  requests: number;
+  level: BudgetLevel;
+}
+
+// 按provider汇总的本月/今日用量 (键为provider, ''为所有provider合计)
+interface UsageTotals {
+  cost: number;
+  requests: number;
+}
+
+// 汇总从用量记录重新计算的间隔,超过后重新读取以包含其他窗口的用量
+const CACHE_TTL_MS = 60 * 1000;
+
+let monthTotals = new Map<string, UsageTotals>();
+let dayTotals = new Map<string, UsageTotals>();
+let totalsDay = '';
+let totalsPrices = '';
+let totalsAt = 0;
+// provider:model -> 价格,避免每条记录都匹配glob价格键
+let priceLookup = new Map<string, ModelPrice | undefined>();
+
+// 已提醒过的 预算+周期+级别,每个周期只提醒一次
+const notified = new Set<string>();
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function periodKey(period: 'daily' | 'monthly', date = new Date()): string {
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  return period === 'monthly' ? month : `${month}-${pad(date.getDate())}`;
+}
+
+function dayStart(): string {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+}
+
+function addToTotals(record: UsageRecord, prices: Record<string, ModelPrice>, today: string): void {
+  // 旧记录中透传请求的provider为pass
+  const provider = usageProvider(record.provider);
+  const priceKey = `${provider}:${record.model}`;
+  if (!priceLookup.has(priceKey)) {
+    priceLookup.set(priceKey, getModelPrice(prices, provider, record.model));
+  }
+  const price = priceLookup.get(priceKey);
+  const cost = price ? costWithPrice(record, price) : 0;
+
+  for (const totals of record.timestamp >= today ? [monthTotals, dayTotals] : [monthTotals]) {
+    for (const key of ['', provider]) {
+      const entry = totals.get(key) || { cost: 0, requests: 0 };
+      entry.cost += cost;
+      entry.requests++;
+      totals.set(key, entry);
+    }
+  }
+}
+
+// 跨天、价格表变化或超过有效期时从本月用量记录重新汇总
+function refreshTotals(): void {
+  const day = periodKey('daily');
+  const prices = getPriceTable();
+  const pricesKey = JSON.stringify(prices);
+  if (day === totalsDay && pricesKey === totalsPrices && Date.now() - totalsAt <= CACHE_TTL_MS) {
+    return;
+  }
+
+  monthTotals = new Map();
+  dayTotals = new Map();
+  priceLookup = new Map();
+  const now = new Date();
+  const today = dayStart();
+  for (const record of readUsageRecords(new Date(now.getFullYear(), now.getMonth(), 1))) {
+    addToTotals(record, prices, today);
+  }
+  totalsDay = day;
+  totalsPrices = pricesKey;
+  totalsAt = Date.now();
+}
+
+// 本窗口新增的用量记录,直接计入汇总
+export function addBudgetUsage(record: UsageRecord): void {
+  if (totalsDay) {
+    addToTotals(record, getPriceTable(), dayStart());
+  }
+}
+
+function budgetLabel(limit: BudgetLimit): string {
+  return `${limit.name || limit.provider || '全部'} ${limit.period === 'monthly' ? '本月' : '今日'}`;
+}
+
+/**
+ * 计算各预算的当前用量和级别
+ */
+export function getBudgetStatuses(): BudgetStatus[] {
+  const limits = vscode.workspace.getConfiguration('claudeProxy').get<BudgetLimit[]>('budget.limits', []);
+  if (limits.length === 0) {
+    return [];
+  }
+
+  refreshTotals();
+
+  return limits.filter(limit => limit?.period).map(limit => {
+    const totals = (limit.period === 'monthly' ? monthTotals : dayTotals).get(limit.provider ? usageProvider(limit.provider) : '');
+    const cost = totals?.cost ?? 0;
+    const requests = totals?.requests ?? 0;
+
+    const reached = (value: number, max: number | undefined) => max !== undefined && value >= max;
+    let level: BudgetLevel = 'ok';
+    if (reached(cost, limit.hardLimit) || reached(requests, limit.hardRequests)) {
+      level = 'hard';
+    } else if (reached(cost, limit.softLimit) || reached(requests, limit.softRequests)) {
+      level = 'soft';
+    }
+
+    return { limit, label: budgetLabel(limit), cost, requests, level };
+  });
+}
+
+// 预算用量的描述,如 "$4.20 / $5, 120次请求"
+export function describeBudget(status: BudgetStatus): string {
+  const max = status.level === 'hard' || status.limit.softLimit === undefined ? status.limit.hardLimit : status.limit.softLimit;
+  return `$${status.cost.toFixed(2)}${max !== undefined ? ` / $${max}` : ''}, ${status.requests}次请求`;
+}
+
+/**
+ * 对目标链应用预算
+ * downgrade: 达到软限制时改用的目标链 (仅Main请求提供)
+ * 所有目标都达到硬限制 (或全局预算达到硬限制) 时返回blocked
+ */
+export function applyBudgets<T extends { provider: string }>(
+  targets: T[],
+  downgrade: (() => T[]) | null
+): { targets: T[]; blocked?: BudgetStatus; downgraded?: BudgetStatus } {
+  const statuses = getBudgetStatuses();
+  if (statuses.length === 0) {
+    return { targets };
+  }
+
+  const overallHard = statuses.find(status => !status.limit.provider && status.level === 'hard');
+  if (overallHard) {
+    return { targets: [], blocked: overallHard };
+  }
+
+  const findStatus = (provider: string, level: BudgetLevel, includeOverall: boolean) => statuses.find(status =>
+    status.level === level &&
+    ((status.limit.provider && usageProvider(status.limit.provider) === usageProvider(provider)) || (includeOverall && !status.limit.provider)));
+
+  // 首选目标达到软限制或provider的硬限制时改用降级目标 (降级目标本身也达到硬限制时不降级)
+  let result = targets;
+  let downgraded: BudgetStatus | undefined;
+  if (downgrade && targets.length > 0) {
+    const reached = findStatus(targets[0].provider, 'hard', false) || findStatus(targets[0].provider, 'soft', true);
+    const cheaper = reached ? downgrade() : [];
+    if (reached && cheaper.some(target => !findStatus(target.provider, 'hard', false))) {
+      result = cheaper;
+      downgraded = reached;
+    }
+  }
+
+  const allowed = result.filter(target => !findStatus(target.provider, 'hard', false));
+  if (allowed.length === 0 && result.length > 0) {
+    return { targets: [], blocked: findStatus(result[0].provider, 'hard', false), downgraded };
+  }
+  return { targets: allowed, downgraded };
+}
+
+/**
+ * 预算首次达到软/硬限制时弹出提醒 (每个周期每个级别一次)
+ */
+export function notifyBudgetAlerts(): void {
+  for (const status of getBudgetStatuses()) {
+    if (status.level === 'ok') {
+      continue;
+    }
+    const key = `${status.label}|${periodKey(status.limit.period)}|${status.level}`;
+    if (notified.has(key)) {
+      continue;
+    }
+    notified.add(key);
+    const downgradeTarget = vscode.workspace.getConfiguration('claudeProxy').get<string>('budget.downgradeTarget', '');
+    const action = status.level === 'hard'
+      ? `已达到硬限制,${downgradeTarget && status.limit.provider ? `Main请求将改用 ${downgradeTarget},其他` : '相关'}请求将被拒绝`
+      : `已达到软限制${downgradeTarget ? `,Main请求将改用 ${downgradeTarget}` : ''}`;
+    vscode.window.showWarningMessage(`预算提醒: ${status.label} ${action} (${describeBudget(status)})`);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Provider能力配置
+ * 转发前删除或改写目标provider不支持的请求字段和anthropic-beta请求头
+ */
+
+export interface CapabilityProfile {
+  thinking?: boolean;  // 不支持时删除thinking参数和历史消息中的thinking块
+  cacheControl?: boolean;  // 不支持时删除所有cache_control
+  metadata?: boolean;  // 不支持时删除metadata
+  toolChoice?: string[];  // 支持的tool_choice类型 (auto/any/tool/none),其他类型改写为auto
+  serverTools?: boolean;  // 不支持时删除服务端工具 (如web_search)
+  betaHeaders?: boolean | string[];  // false: 删除anthropic-beta; 数组: 只保留列出的beta
+  unsupportedFields?: string[];  // 其他需要删除的顶层字段
+  images?: boolean;  // 不支持时图片替换为占位文本 (配置了视觉备用目标时改用备用目标)
+  documents?: boolean;  // 不支持时文本文档转为文本,其他文档替换为占位文本
+}
+
+// 第三方Anthropic兼容接口的默认配置: 服务端工具和beta功能只有Anthropic官方支持
+export const THIRD_PARTY_CAPABILITIES: CapabilityProfile = {
+  serverTools: false,
+  betaHeaders: false
+};
+
+// 服务端工具带有版本化的type (如 web_search_20250305),自定义工具没有type或为custom
+function isServerTool(tool: any): boolean {
+  return typeof tool?.type === 'string' && tool.type !== 'custom';
+}
+
+// 删除内容块上的cache_control (包括tool_result中的内容块),返回删除的个数
+function stripCacheControl(blocks: any): number {
+  if (!Array.isArray(blocks)) {
+    return 0;
+  }
+  let count = 0;
+  for (const block of blocks) {
+    if (block && typeof block === 'object') {
+      if ('cache_control' in block) {
+        delete block.cache_control;
+        count++;
+      }
+      count += stripCacheControl(block.content);
+    }
+  }
+  return count;
+}
+
+// 消息中的图片和文档块数 (包括tool_result中的)
+export function countMediaBlocks(body: any): { images: number; documents: number } {
+  const counts = { images: 0, documents: 0 };
+  const visit = (content: any) => {
+    if (!Array.isArray(content)) {
+      return;
+    }
+    for (const block of content) {
+      if (block?.type === 'image') {
+        counts.images++;
+      } else if (block?.type === 'document') {
+        counts.documents++;
+      } else if (block?.type === 'tool_result') {
+        visit(block.content);
+      }
+    }
+  };
+  for (const message of body?.messages || []) {
+    visit(message?.content);
+  }
+  return counts;
+}
+
+// 按能力配置列出请求中目标不支持的媒体类型
+export function unsupportedMedia(body: any, profile: CapabilityProfile | undefined): string[] {
+  if (!profile || (profile.images !== false && profile.documents !== false)) {
+    return [];
+  }
+  const counts = countMediaBlocks(body);
+  const result: string[] = [];
+  if (profile.images === false && counts.images > 0) {
+    result.push('images');
+  }
+  if (profile.documents === false && counts.documents > 0) {
+    result.push('documents');
+  }
+  return result;
+}
+
+// 替换不支持的图片/文档块,返回替换的个数
+function replaceMedia(blocks: any, profile: CapabilityProfile): number {
+  if (!Array.isArray(blocks)) {
+    return 0;
+  }
+  let count = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block?.type === 'image' && profile.images === false) {
+      blocks[i] = { type: 'text', text: '[image omitted: the model does not support images]' };
+      count++;
+    } else if (block?.type === 'document' && profile.documents === false) {
+      blocks[i] = block.source?.type === 'text' && typeof block.source.data === 'string'
+        ? { type: 'text', text: block.title ? `${block.title}\n\n${block.source.data}` : block.source.data }
+        : { type: 'text', text: `[document omitted${block.title ? `: ${block.title}` : ''}: the model does not support documents]` };
+      count++;
+    } else if (block?.type === 'tool_result') {
+      count += replaceMedia(block.content, profile);
+    }
+  }
+  return count;
+}
+
+/**
+ * 按能力配置处理请求体,返回新的请求体和被删除/改写的内容说明
+ */
+export function sanitizeRequestBody(body: any, profile: CapabilityProfile): { body: any; removed: string[] } {
+  const removed: string[] = [];
+  if (!body || typeof body !== 'object') {
+    return { body, removed };
+  }
+  // 深拷贝,避免修改原请求体 (日志和备用目标仍使用原请求体)
+  const result = JSON.parse(JSON.stringify(body));
+
+  for (const field of profile.unsupportedFields || []) {
+    if (field in result) {
+      delete result[field];
+      removed.push(field);
+    }
+  }
+
+  if (profile.metadata === false && 'metadata' in result) {
+    delete result.metadata;
+    removed.push('metadata');
+  }
+
+  if (profile.thinking === false) {
+    if ('thinking' in result) {
+      delete result.thinking;
+      removed.push('thinking');
+    }
+    let blocks = 0;
+    for (const message of result.messages || []) {
+      if (message?.role === 'assistant' && Array.isArray(message.content)) {
+        const kept = message.content.filter((block: any) => block?.type !== 'thinking' && block?.type !== 'redacted_thinking');
+        blocks += message.content.length - kept.length;
+        message.content = kept;
+      }
+    }
+    if (blocks > 0) {
+      removed.push(`thinking blocks (${blocks})`);
+    }
+  }
+
+  if (profile.cacheControl === false) {
+    // messages中的内容块在message.content下,stripCacheControl会递归处理
+    const count = stripCacheControl(result.system) + stripCacheControl(result.messages) + stripCacheControl(result.tools);
+    if (count > 0) {
+      removed.push(`cache_control (${count})`);
+    }
+  }
+
+  if (profile.serverTools === false && Array.isArray(result.tools)) {
+    const serverTools = result.tools.filter(isServerTool);
+    if (serverTools.length > 0) {
+      result.tools = result.tools.filter((tool: any) => !isServerTool(tool));
+      removed.push(`server tools (${serverTools.map((tool: any) => tool.name || tool.type).join(', ')})`);
+      if (result.tools.length === 0) {
+        delete result.tools;
+        delete result.tool_choice;
+      } else if (result.tool_choice?.type === 'tool' && serverTools.some((tool: any) => tool.name === result.tool_choice.name)) {
+        // 指定的工具已被删除
+        result.tool_choice = { type: 'auto' };
+      }
+    }
+  }
+
+  if (profile.images === false || profile.documents === false) {
+    let count = 0;
+    for (const message of result.messages || []) {
+      count += replaceMedia(message?.content, profile);
+    }
+    if (count > 0) {
+      removed.push(`images/documents replaced with text (${count})`);
+    }
+  }
+
+  const choiceType = result.tool_choice?.type;
+  if (profile.toolChoice && choiceType && !profile.toolChoice.includes(choiceType)) {
+    if (profile.toolChoice.includes('auto')) {
+      result.tool_choice = { type: 'auto' };
+      removed.push(`tool_choice ${choiceType} -> auto`);
+    } else {
+      delete result.tool_choice;
+      removed.push(`tool_choice ${choiceType}`);
+    }
+  }
+
+  return { body: result, removed };
+}
+
+/**
+ * 按能力配置处理anthropic-beta请求头的值,返回保留的值 (全部删除时为undefined)
+ */
+export function sanitizeBetaHeader(value: string, profile: CapabilityProfile, removed: string[]): string | undefined {
+  if (profile.betaHeaders === undefined || profile.betaHeaders === true) {
+    return value;
+  }
+  const betas = value.split(',').map(beta => beta.trim()).filter(beta => beta.length > 0);
+  const allowed = profile.betaHeaders === false ? [] : profile.betaHeaders;
+  const kept = betas.filter(beta => allowed.includes(beta));
+  const dropped = betas.filter(beta => !allowed.includes(beta));
+  if (dropped.length > 0) {
+    removed.push(`anthropic-beta (${dropped.join(', ')})`);
+  }
+  return kept.length > 0 ? kept.join(',') : undefined;
+}
@@ -0,0 +1,135 @@
+/**
+ * 按provider限制同时进行的上游请求数
+ * 达到上限时按先进先出排队,排队超时返回overloaded错误
+ */
+
+export interface QueueStatus {
+  provider: string;
+  inFlight: number;
+  queued: number;
+  limit: number;  // 0表示不限制
+}
+
+interface Waiter {
+  grant: () => void;
+}
+
+interface ProviderQueue {
+  inFlight: number;
+  limit: number;
+  waiters: Waiter[];
+}
+
+export class QueueTimeoutError extends Error {
+  constructor(readonly provider: string, readonly ms: number) {
+    super(`${provider} is overloaded: waited ${ms}ms in the request queue`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+// provider -> 队列状态
+const queues = new Map<string, ProviderQueue>();
+let changeListener: (() => void) | null = null;
+
+// 进行中/排队数变化时调用 (用于刷新状态栏)
+export function onQueueChange(listener: () => void): void {
+  changeListener = listener;
+}
+
+function notifyChange(): void {
+  changeListener?.();
+}
+
+function getQueue(provider: string): ProviderQueue {
+  let queue = queues.get(provider);
+  if (!queue) {
+    queue = { inFlight: 0, limit: 0, waiters: [] };
+    queues.set(provider, queue);
+  }
+  return queue;
+}
+
+function hasCapacity(queue: ProviderQueue): boolean {
+  return queue.limit <= 0 || queue.inFlight < queue.limit;
+}
+
+// 有空位时按顺序放行排队的请求
+function dispatch(queue: ProviderQueue): void {
+  while (queue.waiters.length > 0 && hasCapacity(queue)) {
+    queue.inFlight++;
+    queue.waiters.shift()!.grant();
+  }
+}
+
+/**
+ * 占用provider的一个并发名额,返回释放函数 (多次调用只释放一次)
+ * limit: 最大并发数, 0为不限制; timeoutMs: 最长排队时间, 0为一直等待
+ * 排队超时抛出QueueTimeoutError,signal中止时抛出其中止原因
+ */
+export function acquireSlot(provider: string, limit: number, timeoutMs: number, signal?: AbortSignal): Promise<() => void> {
+  const queue = getQueue(provider);
+  // 使用最新的设置,修改上限后排队中的请求也按新值放行
+  queue.limit = limit;
+
+  let released = false;
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    queue.inFlight--;
+    dispatch(queue);
+    notifyChange();
+  };
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  if (queue.waiters.length === 0 && hasCapacity(queue)) {
+    queue.inFlight++;
+    notifyChange();
+    return Promise.resolve(release);
+  }
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const waiter: Waiter = {
+      grant: () => {
+        cleanup();
+        resolve(release);
+      }
+    };
+    const leave = (reason: any) => {
+      cleanup();
+      queue.waiters.splice(queue.waiters.indexOf(waiter), 1);
+      notifyChange();
+      reject(reason);
+    };
+    const onAbort = () => leave(signal!.reason);
+    const cleanup = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    queue.waiters.push(waiter);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => leave(new QueueTimeoutError(provider, timeoutMs)), timeoutMs);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    dispatch(queue);
+    notifyChange();
+  });
+}
+
+// 有进行中或排队请求的provider
+export function getQueueStatuses(): QueueStatus[] {
+  const statuses: QueueStatus[] = [];
+  for (const [provider, queue] of queues) {
+    if (queue.inFlight > 0 || queue.waiters.length > 0) {
+      statuses.push({ provider, inFlight: queue.inFlight, queued: queue.waiters.length, limit: queue.limit });
+    }
+  }
+  return statuses;
+}
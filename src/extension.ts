@@ -4,12 +4,39 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { spawn, ChildProcess } from 'child_process';
+import { StreamTranslator, anthropicError, upstreamToAnthropicError, sseEvent } from './anthropic';
+import { anthropicToOpenAIRequest, openAIToAnthropicResponse, OpenAIStreamTranslator } from './openai';
+import { anthropicToGeminiRequest, geminiToAnthropicResponse, GeminiStreamTranslator } from './gemini';
+import { AuthStyle, TargetFormat, CountTokensMode, BUILTIN_PROVIDER_IDS, getProviders, findProvider, providerAuthHeaders } from './providers';
+import { initSecrets, loadSecretKeys, getSecretKeys, setSecretKeys, hasPlaintextKeys, migratePlaintextKeys } from './secrets';
+import { KeyStrategy, pickApiKey, reportKeyResult, hasAvailableKey, getKeyHealth } from './keys';
+import { RoutingRule, matchRoutingRule } from './routing';
+import { redactLog, compilePatterns } from './redact';
+import { writeLogEntry, applyLogRetention, rotateSidecarLog } from './logs';
+import { listModels, modelListResponse } from './models';
+import { countRequestTokens } from './tokens';
+import { CapabilityProfile, sanitizeRequestBody, sanitizeBetaHeader, unsupportedMedia } from './capabilities';
+import { SSEPipeline, SSETransformFactory } from './sse';
+import { ReasoningMode, resolveReasoningMode, applyReasoningToMessage, reasoningTransform, stripUnsignedThinking } from './reasoning';
+import { TimeoutSettings, DEFAULT_TIMEOUTS, UpstreamGuard, UpstreamTimeoutError, ClientAbortError } from './timeouts';
+import { acquireSlot, getQueueStatuses, onQueueChange, QueueTimeoutError } from './concurrency';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, retryDelay, sleep, checkRetryable } from './retry';
+import { openLogExplorer, replayLogEntry } from './logExplorer';
+import { REPLAY_TARGET_HEADER, registerReplayContentProvider } from './replay';
+import { UsageRecord, extractUsage, recordUsage, getWorkspaceName, usageProvider } from './usage';
+import { applyBudgets, addBudgetUsage, describeBudget, getBudgetStatuses, notifyBudgetAlerts } from './budget';
+import { openUsageDashboard } from './usageDashboard';
 
 let server: http.Server | null = null;
 let statusBarItem: vscode.StatusBarItem;
 let litellmProcess: ChildProcess | null = null;
 let cliproxyapiProcess: ChildProcess | null = null;
 let currentProxyPort = 4001;
+let activeMainTarget: string | null = null;  // 最近一次Main请求实际使用的映射目标
+let extensionContext: vscode.ExtensionContext | null = null;
+
+// 代理配置写入位置: 项目settings.json / settings.local.json / 仅集成终端环境变量
+type ConfigTarget = 'settings' | 'settingsLocal' | 'terminal';
 
 // 配置文件信息
 interface SettingsInfo {
@@ -30,17 +57,33 @@ function getWorkspaceSettingsPath(): string {
   return path.join(process.cwd(), '.claude', 'settings.json');
 }
 
+// 获取代理配置写入位置
+function getConfigTarget(): ConfigTarget {
+  return vscode.workspace.getConfiguration('claudeProxy').get<ConfigTarget>('configTarget', 'settings');
+}
+
+// 获取当前工作区下的 settings.local.json 路径 (通常不纳入版本控制)
+function getWorkspaceLocalSettingsPath(): string {
+  return path.join(path.dirname(getWorkspaceSettingsPath()), 'settings.local.json');
+}
+
 /**
  * 获取项目级配置文件路径
  */
 function getSettingsFilePath(): string {
-  return getWorkspaceSettingsPath();
+  return getConfigTarget() === 'settingsLocal' ? getWorkspaceLocalSettingsPath() : getWorkspaceSettingsPath();
 }
 
 /**
  * 获取项目级配置文件信息
+ * terminal模式下读取集成终端的环境变量集合
  */
 function getSettingsInfo(): SettingsInfo {
+  if (getConfigTarget() === 'terminal') {
+    const proxyBaseUrl = extensionContext?.environmentVariableCollection.get('ANTHROPIC_BASE_URL')?.value;
+    return { filePath: '', exists: true, hasProxyConfig: !!proxyBaseUrl, proxyBaseUrl };
+  }
+
   const filePath = getSettingsFilePath();
   const exists = fs.existsSync(filePath);
   let hasProxyConfig = false;
@@ -108,11 +151,81 @@ function writeSettingsFile(filePath: string, data: any): boolean {
   }
 }
 
+/**
+ * 更新集成终端的环境变量 (只影响本窗口之后启动的终端,不写任何文件)
+ * @param enableProxy 是否启用代理（false = 透传）
+ */
+function updateTerminalEnvironment(enableProxy: boolean): boolean {
+  if (!extensionContext) {
+    return false;
+  }
+
+  const collection = extensionContext.environmentVariableCollection;
+  // 不跨窗口重载保留,扩展异常退出也不会残留
+  collection.persistent = false;
+  collection.clear();
+
+  if (enableProxy) {
+    const config = vscode.workspace.getConfiguration('claudeProxy');
+    collection.description = 'Claude Proxy: 将 Claude Code 请求转发到本地代理';
+    collection.replace('ANTHROPIC_BASE_URL', `http://127.0.0.1:${currentProxyPort}`);
+
+    const model = config.get<string>('terminal.model', '');
+    if (model) {
+      collection.replace('ANTHROPIC_MODEL', model);
+    }
+    const smallFastModel = config.get<string>('terminal.smallFastModel', '');
+    if (smallFastModel) {
+      collection.replace('ANTHROPIC_SMALL_FAST_MODEL', smallFastModel);
+    }
+    console.log('已启用代理模式，设置集成终端环境变量 ANTHROPIC_BASE_URL');
+  } else {
+    console.log('已启用透传模式，清除集成终端环境变量');
+  }
+  return true;
+}
+
+/**
+ * 清理非当前写入位置中残留的本代理配置 (切换configTarget后)
+ */
+function clearInactiveProxyConfigs(): void {
+  const configTarget = getConfigTarget();
+
+  if (configTarget !== 'terminal') {
+    extensionContext?.environmentVariableCollection.clear();
+  }
+
+  const files: [ConfigTarget, string][] = [
+    ['settings', getWorkspaceSettingsPath()],
+    ['settingsLocal', getWorkspaceLocalSettingsPath()]
+  ];
+  for (const [target, filePath] of files) {
+    if (target === configTarget) {
+      continue;
+    }
+    const settings = readSettingsFile(filePath);
+    // 只移除指向本地代理的设置
+    if (!settings?.env?.ANTHROPIC_BASE_URL?.startsWith('http://127.0.0.1:')) {
+      continue;
+    }
+    delete settings.env.ANTHROPIC_BASE_URL;
+    if (Object.keys(settings.env).length === 0) {
+      delete settings.env;
+    }
+    writeSettingsFile(filePath, settings);
+    console.log(`已移除 ${filePath} 中残留的代理设置`);
+  }
+}
+
 /**
  * 更新项目级代理配置（不使用备份文件）
  * @param enableProxy 是否启用代理（false = 透传）
  */
 function updateProxyConfig(enableProxy: boolean): boolean {
+  if (getConfigTarget() === 'terminal') {
+    return updateTerminalEnvironment(enableProxy);
+  }
+
   const filePath = getSettingsFilePath();
   let settings = readSettingsFile(filePath) || {};
 
@@ -155,67 +268,6 @@ function setProxyMode(): void {
   updateProxyConfig(true);
 }
 
-// 获取日志目录路径
-function getLogDir(): string {
-  return path.join(os.homedir(), '.claude', 'proxy', 'log');
-}
-
-// 确保日志目录存在
-async function ensureLogDir(): Promise<void> {
-  const logDir = getLogDir();
-  if (!fs.existsSync(logDir)) {
-    fs.mkdirSync(logDir, { recursive: true });
-  }
-}
-
-// 清理旧的日志文件
-function cleanupOldLogs(): void {
-  const config = vscode.workspace.getConfiguration('claudeProxy');
-
-  // 清理 JSON 日志目录
-  const logDir = getLogDir();
-  if (fs.existsSync(logDir)) {
-    try {
-      const files = fs.readdirSync(logDir);
-      for (const file of files) {
-        const filePath = path.join(logDir, file);
-        try {
-          fs.unlinkSync(filePath);
-          console.log(`已删除日志文件: ${file}`);
-        } catch (e) {
-          console.warn(`删除日志文件失败: ${file}`, e);
-        }
-      }
-    } catch (e) {
-      console.warn('清理JSON日志文件失败:', e);
-    }
-  }
-
-  // 清理 LiteLLM 日志文件
-  const litellmConfigPath = expandPath(config.get<string>('providers.litellm.configPath', '~/.claude/proxy/litellm.yaml'));
-  const litellmLogPath = litellmConfigPath.replace(/\.yaml$/, '.log');
-  if (fs.existsSync(litellmLogPath)) {
-    try {
-      fs.unlinkSync(litellmLogPath);
-      console.log(`已删除 LiteLLM 日志文件: ${litellmLogPath}`);
-    } catch (e) {
-      console.warn(`删除 LiteLLM 日志文件失败: ${litellmLogPath}`, e);
-    }
-  }
-
-  // 清理 CLIProxyAPI 日志文件
-  const cliproxyapiConfigPath = expandPath(config.get<string>('providers.cliproxyapi.configPath', '~/.claude/proxy/cliproxyapi.yaml'));
-  const cliproxyapiLogPath = cliproxyapiConfigPath.replace(/\.yaml$/, '.log');
-  if (fs.existsSync(cliproxyapiLogPath)) {
-    try {
-      fs.unlinkSync(cliproxyapiLogPath);
-      console.log(`已删除 CLIProxyAPI 日志文件: ${cliproxyapiLogPath}`);
-    } catch (e) {
-      console.warn(`删除 CLIProxyAPI 日志文件失败: ${cliproxyapiLogPath}`, e);
-    }
-  }
-}
-
 // 从模型名称提取模型类型 (haiku/main)
 function extractModelType(modelName: string): 'haiku' | 'main' {
   const lower = modelName.toLowerCase();
@@ -226,166 +278,320 @@ function extractModelType(modelName: string): 'haiku' | 'main' {
   return 'main';
 }
 
-// 获取目标配置
-async function getTargetConfig(modelType: 'haiku' | 'main'): Promise<{
+// 上游目标 (映射链中的一项)
+interface UpstreamTarget {
+  label: string;  // 映射链中的原始写法, 如 glm:glm-4.6
+  provider: string;  // 'pass' 表示透传到Anthropic官方API
   endpoint: string;
   model?: string;
-  apiKey?: string;
-  authMethod?: 'token' | 'x-api-key';
-} | null> {
-  const config = vscode.workspace.getConfiguration('claudeProxy');
-  const mapping = config.get<string>(`mappings.${modelType}`, 'pass');
+  apiKeys: string[];
+  authMethod?: AuthStyle;
+  headers?: Record<string, string>;
+  format: TargetFormat;
+  countTokens?: CountTokensMode;  // 透传时不处理
+  capabilities?: CapabilityProfile;  // 透传时不处理
+  streamTransforms?: string[];  // 透传时不处理
+  reasoning?: ReasoningMode;  // 透传时不处理
+  timeouts?: TimeoutSettings;  // provider的超时设置,覆盖全局设置
+  retry?: RetryPolicy;  // provider的重试策略,覆盖全局设置
+  maxConcurrency?: number;  // provider的并发请求上限, 0为不限制
+}
 
-  if (mapping === 'pass') {
-    // 透传模式
-    return null;
-  }
+// 实际发往上游的请求
+interface UpstreamRequest {
+  url: string;
+  body: Buffer;
+  headers: any;
+  apiKey?: string;  // 从密钥池中选中的密钥
+  removed: string[];  // 按能力配置删除/改写的字段和请求头
+}
 
-  // 解析映射 (格式: provider:model)
-  const [provider, targetModel] = mapping.split(':');
+const PASS_TARGET: UpstreamTarget = {
+  label: 'pass',
+  provider: 'pass',
+  endpoint: 'https://api.anthropic.com',
+  apiKeys: [],
+  format: 'anthropic'
+};
+
+// 解析映射链 (格式: provider:model → provider:model, 也支持 -> 和 , 分隔)
+function parseMappingChain(mapping: string): string[] {
+  return mapping
+    .split(/\s*(?:→|->|,)\s*/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
 
-  if (provider === 'anthropic') {
-    const enabled = config.get<boolean>('providers.anthropic.enabled', false);
-    if (!enabled) {
-      console.warn('Anthropic provider not enabled');
-      return null;
-    }
+// 解析单个映射目标
+function resolveTarget(config: vscode.WorkspaceConfiguration, item: string): UpstreamTarget | null {
+  if (item === 'pass') {
+    return PASS_TARGET;
+  }
 
-    const apiKey = config.get<string>('providers.anthropic.apiKey', '');
+  // 解析映射 (格式: provider:model),只按第一个冒号切分,模型ID本身可以包含冒号 (如 qwen2.5:7b)
+  const colon = item.indexOf(':');
+  const provider = colon < 0 ? item : item.substring(0, colon);
+  const targetModel = colon < 0 ? undefined : item.substring(colon + 1);
 
-    return {
-      endpoint: 'https://api.anthropic.com',
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+  const definition = findProvider(config, provider);
+  if (!definition) {
+    console.warn(`Unknown provider: ${provider}`);
+    return null;
   }
 
-  if (provider === 'glm') {
-    const enabled = config.get<boolean>('providers.glm.enabled', false);
-    if (!enabled) {
-      console.warn('GLM provider not enabled');
-      return null;
-    }
+  if (!definition.enabled) {
+    console.warn(`Provider ${provider} not enabled`);
+    return null;
+  }
 
-    const apiKey = config.get<string>('providers.glm.apiKey', '');
+  return {
+    label: item,
+    provider,
+    endpoint: definition.baseUrl.replace(/\/+$/, ''),
+    model: targetModel,
+    apiKeys: definition.apiKeys,
+    authMethod: definition.authStyle,
+    headers: definition.headers,
+    format: definition.format,
+    countTokens: definition.countTokens,
+    capabilities: definition.capabilities,
+    streamTransforms: definition.streamTransforms,
+    reasoning: definition.reasoning,
+    timeouts: definition.timeouts,
+    retry: definition.retry,
+    maxConcurrency: definition.maxConcurrency
+  };
+}
 
-    return {
-      endpoint: 'https://open.bigmodel.cn/api/anthropic',
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+// 将映射字符串解析为目标配置链,返回空数组表示透传
+function resolveMapping(config: vscode.WorkspaceConfiguration, mapping: string): UpstreamTarget[] {
+  if (mapping === 'pass') {
+    // 透传模式
+    return [];
   }
 
-  if (provider === 'kimi') {
-    const enabled = config.get<boolean>('providers.kimi.enabled', false);
-    if (!enabled) {
-      console.warn('Kimi provider not enabled');
-      return null;
+  const targets: UpstreamTarget[] = [];
+  for (const item of parseMappingChain(mapping)) {
+    const target = resolveTarget(config, item);
+    if (target) {
+      targets.push(target);
     }
+  }
+  return targets;
+}
 
-    const apiKey = config.get<string>('providers.kimi.apiKey', '');
+/**
+ * 获取请求的目标配置链
+ * 先按顺序匹配路由规则,都不命中时使用haiku/main映射
+ * forcedTarget: 重放请求指定的目标,优先于路由规则和映射
+ */
+async function getTargetConfigs(requestBody: any, url: string | undefined, forcedTarget?: string): Promise<{
+  targets: UpstreamTarget[];
+  modelType: 'haiku' | 'main';
+  rule?: RoutingRule;
+}> {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  let modelType = extractModelType(requestBody.model);
 
-    return {
-      endpoint: 'https://api.moonshot.cn/anthropic',
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+  if (forcedTarget) {
+    console.log(`重放请求,指定目标: ${forcedTarget}`);
+    return { targets: resolveMapping(config, forcedTarget), modelType };
   }
 
-  if (provider === 'minimax') {
-    const enabled = config.get<boolean>('providers.minimax.enabled', false);
-    if (!enabled) {
-      console.warn('MiniMax provider not enabled');
-      return null;
-    }
+  const rule = matchRoutingRule(config.get<RoutingRule[]>('routing.rules', []), requestBody, url);
+  if (rule && rule.target !== 'main' && rule.target !== 'haiku') {
+    console.log(`命中路由规则: ${rule.name || rule.target}`);
+    return { targets: resolveMapping(config, rule.target), modelType, rule };
+  }
+  if (rule) {
+    console.log(`命中路由规则: ${rule.name || rule.target}, 使用${rule.target}映射`);
+    modelType = rule.target as 'haiku' | 'main';
+  }
 
-    const apiKey = config.get<string>('providers.minimax.apiKey', '');
+  const mapping = config.get<string>(`mappings.${modelType}`, 'pass');
+  return { targets: resolveMapping(config, mapping), modelType, rule };
+}
 
-    return {
-      endpoint: 'https://api.minimaxi.com/anthropic',
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+/**
+ * 根据目标构造上游请求 (URL、请求体、请求头)
+ * 目标格式不支持当前接口时返回null
+ * excludeKeys: 本次请求中已失败的密钥,选择密钥时跳过
+ */
+function buildUpstreamRequest(
+  target: UpstreamTarget,
+  req: http.IncomingMessage,
+  rawBody: Buffer,
+  requestBody: any,
+  excludeKeys: string[] = []
+): UpstreamRequest | null {
+  let url = `${target.endpoint}${req.url}`;
+  let body = rawBody;
+
+  // 按provider能力配置删除不支持的字段
+  const removed: string[] = [];
+  let sanitizedBody = requestBody;
+  if (requestBody && target.capabilities) {
+    const sanitized = sanitizeRequestBody(requestBody, target.capabilities);
+    sanitizedBody = sanitized.body;
+    removed.push(...sanitized.removed);
   }
 
-  if (provider === 'deepseek') {
-    const enabled = config.get<boolean>('providers.deepseek.enabled', false);
-    if (!enabled) {
-      console.warn('DeepSeek provider not enabled');
-      return null;
+  // 其他provider转换出的thinking块没有签名,切换到Anthropic官方API后不能再发送
+  if (sanitizedBody && (target.provider === 'pass' || target.provider === 'anthropic')) {
+    const stripped = stripUnsignedThinking(sanitizedBody);
+    if (stripped.count > 0) {
+      sanitizedBody = stripped.body;
+      removed.push(`unsigned thinking blocks (${stripped.count})`);
     }
+  }
 
-    const apiKey = config.get<string>('providers.deepseek.apiKey', '');
-
-    return {
-      endpoint: 'https://api.deepseek.com/anthropic',
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+  // 修改请求体中的模型
+  if (requestBody && (target.model || removed.length > 0)) {
+    body = Buffer.from(JSON.stringify({ ...sanitizedBody, model: target.model || requestBody.model }), 'utf8');
   }
 
-  if (provider === 'custom') {
-    const enabled = config.get<boolean>('providers.custom.enabled', false);
-    if (!enabled) {
-      console.warn('Custom provider not enabled');
+  // 非Anthropic格式的provider需要转换请求
+  if (target.format !== 'anthropic') {
+    const pathname = new URL(req.url || '/', 'http://127.0.0.1').pathname;
+    if (pathname !== '/v1/messages') {
+      // count_tokens等接口在目标格式中没有对应
       return null;
     }
+    // 映射中未指定模型时沿用请求的模型
+    const mappedBody = { ...sanitizedBody, model: target.model || requestBody.model };
+    if (target.format === 'openai') {
+      url = `${target.endpoint}/chat/completions`;
+      body = Buffer.from(JSON.stringify(anthropicToOpenAIRequest(mappedBody)), 'utf8');
+    } else {
+      const method = requestBody.stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+      url = `${target.endpoint}/models/${mappedBody.model}:${method}`;
+      // 需要转换为thinking块时请求Gemini返回思考摘要
+      const includeThoughts = resolveReasoningMode(target.reasoning, requestBody) === 'thinking';
+      body = Buffer.from(JSON.stringify(anthropicToGeminiRequest(mappedBody, includeThoughts)), 'utf8');
+    }
+  }
 
-    const apiKey = config.get<string>('providers.custom.apiKey', '');
-    const baseUrl = config.get<string>('providers.custom.baseUrl', 'https://api.siliconflow.cn');
+  // 附加provider自定义请求头
+  const targetHeaders: any = { ...(target.headers || {}) };
 
-    return {
-      endpoint: baseUrl,
-      model: targetModel,
-      apiKey,
-      authMethod: 'x-api-key'
-    };
+  // 设置认证 (从密钥池中选择)
+  const strategy = vscode.workspace.getConfiguration('claudeProxy').get<KeyStrategy>('keyRotation.strategy', 'round-robin');
+  const apiKey = pickApiKey(target.provider, target.apiKeys, strategy, excludeKeys);
+  if (apiKey && target.authMethod) {
+    Object.assign(targetHeaders, providerAuthHeaders(target.authMethod, apiKey));
   }
 
-  if (provider === 'litellm') {
-    const enabled = config.get<boolean>('providers.litellm.enabled', false);
-    if (!enabled) {
-      console.warn('LiteLLM provider not enabled');
-      return null;
+  // 准备请求头
+  const headers: any = { ...targetHeaders };
+  for (const [key, value] of Object.entries(req.headers)) {
+    const lowerKey = key.toLowerCase();
+    // 跳过host和connection等代理相关的头
+    if (['host', 'connection', 'content-length', REPLAY_TARGET_HEADER].includes(lowerKey)) {
+      continue;
     }
-
-    const port = config.get<number>('providers.litellm.port', 4100);
-    const apiKey = config.get<string>('providers.litellm.apiKey', '');
-
-    return {
-      endpoint: `http://127.0.0.1:${port}`,
-      model: targetModel,
-      apiKey: apiKey || undefined,
-      authMethod: apiKey ? 'token' : undefined
-    };
+    // 如果已经在targetHeaders中设置了认证,跳过原始认证头
+    if ((lowerKey === 'x-api-key' || lowerKey === 'authorization') &&
+        (targetHeaders['x-api-key'] || targetHeaders['authorization'] || targetHeaders['x-goog-api-key'])) {
+      continue;
+    }
+    // 转换格式时不需要Anthropic专用头,也不转发Anthropic密钥或Claude订阅的OAuth令牌 (未配置密钥的本地后端)
+    if (target.format !== 'anthropic' &&
+        (lowerKey.startsWith('anthropic-') || lowerKey === 'x-api-key' || lowerKey === 'authorization' || lowerKey === 'accept-encoding')) {
+      continue;
+    }
+    // provider自定义请求头优先
+    if (Object.keys(targetHeaders).some(name => name.toLowerCase() === lowerKey)) {
+      continue;
+    }
+    // 只保留provider支持的beta
+    if (lowerKey === 'anthropic-beta' && target.capabilities) {
+      const betas = sanitizeBetaHeader(String(value), target.capabilities, removed);
+      if (betas !== undefined) {
+        headers[key] = betas;
+      }
+      continue;
+    }
+    headers[key] = value;
   }
 
-  if (provider === 'cliproxyapi') {
-    const enabled = config.get<boolean>('providers.cliproxyapi.enabled', false);
-    if (!enabled) {
-      console.warn('CLIProxyAPI provider not enabled');
-      return null;
-    }
+  return { url, body, headers, apiKey, removed };
+}
 
-    const port = config.get<number>('providers.cliproxyapi.port', 4200);
-    const apiKey = config.get<string>('providers.cliproxyapi.apiKey', '');
+// 上游返回这些状态时切换到映射链中的下一个目标
+function shouldFallback(status: number): boolean {
+  return status === 429 || status >= 500;
+}
 
-    return {
-      endpoint: `http://127.0.0.1:${port}`,
-      model: targetModel,
-      apiKey: apiKey || undefined,
-      authMethod: apiKey ? 'token' : undefined
-    };
+/**
+ * 处理映射目标的count_tokens请求 (许多Anthropic兼容接口没有此接口)
+ * emulate: 直接本地估算; forward-fallback: 先转发,上游返回错误或连接失败时本地估算
+ */
+async function handleCountTokens(
+  target: UpstreamTarget,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  rawBody: Buffer,
+  requestBody: any,
+  originalModel: string,
+  startTime: number,
+  timeouts: Required<TimeoutSettings>,
+  clientSignal: AbortSignal
+): Promise<void> {
+  const mappingInfo: any = {
+    originalModel,
+    targetModel: target.model,
+    provider: target.provider,
+    target: target.label,
+    countTokens: 'emulated'
+  };
+
+  if (target.countTokens === 'forward-fallback') {
+    const upstream = buildUpstreamRequest(target, req, rawBody, requestBody);
+    if (upstream) {
+      // count_tokens应很快返回,按流式请求计时: 响应头使用连接超时,超时后改用本地估算
+      const guard = new UpstreamGuard(timeouts, true, clientSignal);
+      guard.start();
+      try {
+        const response = await fetch(upstream.url, { method: 'POST', headers: upstream.headers, body: upstream.body, signal: guard.signal });
+        guard.headersReceived();
+        if (response.ok) {
+          const text = await response.text();
+          res.writeHead(response.status, { 'content-type': 'application/json' });
+          res.end(text);
+          let responseBody: any = text;
+          try {
+            responseBody = JSON.parse(text);
+          } catch (e) {
+            // 保留原始文本
+          }
+          await saveLog(
+            { url: req.url, method: req.method, headers: upstream.headers, body: requestBody, mapping: { ...mappingInfo, countTokens: 'forwarded', removed: upstream.removed.length > 0 ? upstream.removed : undefined } },
+            { status: response.status, body: responseBody, durationMs: Date.now() - startTime }
+          );
+          return;
+        }
+        mappingInfo.upstreamStatus = response.status;
+        await response.body?.cancel().catch(() => undefined);
+      } catch (error: any) {
+        const reason = guard.resolveError(error);
+        if (reason instanceof ClientAbortError) {
+          throw reason;
+        }
+        mappingInfo.upstreamError = reason.message;
+      } finally {
+        guard.dispose();
+      }
+      console.log(`${target.label} count_tokens 不可用 (${mappingInfo.upstreamStatus || mappingInfo.upstreamError}),使用本地估算`);
+    }
   }
 
-  // 后续可以添加其他provider的处理
-  console.warn(`Unknown provider: ${provider}`);
-  return null;
+  const result = { input_tokens: countRequestTokens(requestBody) };
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(result));
+  await saveLog(
+    { url: req.url, method: req.method, headers: req.headers, body: requestBody, mapping: mappingInfo },
+    { status: 200, body: result, durationMs: Date.now() - startTime }
+  );
 }
 
 // 保存日志
@@ -397,12 +603,10 @@ async function saveLog(requestData: any, responseData: any, error?: any): Promis
     return;
   }
 
-  await ensureLogDir();
-
   const timestamp = new Date().toISOString();
   const id = Math.random().toString(36).substring(2, 15);
 
-  const log = {
+  let log: any = {
     id,
     timestamp,
     request: requestData,
@@ -410,10 +614,16 @@ async function saveLog(requestData: any, responseData: any, error?: any): Promis
     error: error || null
   };
 
-  const filename = `${timestamp.replace(/:/g, '-')}-${id}.json`;
-  const filepath = path.join(getLogDir(), filename);
+  // 默认对凭据脱敏 (包括错误路径中记录的原始请求头)
+  if (config.get<boolean>('logging.redact.enabled', true)) {
+    log = redactLog(log, {
+      headers: config.get<string[]>('logging.redact.headers', []),
+      patterns: compilePatterns(config.get<string[]>('logging.redact.patterns', [])),
+      secrets: getProviders(config).flatMap(provider => provider.apiKeys)
+    });
+  }
 
-  fs.writeFileSync(filepath, JSON.stringify(log, null, 2), 'utf8');
+  const filename = writeLogEntry(log);
   console.log(`日志已保存: ${filename}`);
 }
 
@@ -422,16 +632,210 @@ function updateStatusBarText(): void {
   const config = vscode.workspace.getConfiguration('claudeProxy');
   const mainMapping = config.get<string>('mappings.main', 'pass');
 
+  // 提示中附带启用的路由规则数
+  const rulesCount = config.get<RoutingRule[]>('routing.rules', []).length;
+
+  // 达到限制的预算: 状态栏显示警告背景色,提示中列出详情
+  const budgetAlerts = getBudgetStatuses().filter(status => status.level !== 'ok');
+  statusBarItem.backgroundColor = budgetAlerts.length === 0
+    ? undefined
+    : new vscode.ThemeColor(budgetAlerts.some(status => status.level === 'hard') ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground');
+
+  const setTooltip = (lines: string[]) => {
+    for (const status of budgetAlerts) {
+      lines.push(`预算${status.level === 'hard' ? '硬限制' : '软限制'}: ${status.label} ${describeBudget(status)}`);
+    }
+    for (const queue of getQueueStatuses()) {
+      const limit = queue.limit > 0 ? `/${queue.limit}` : '';
+      lines.push(`${queue.provider}: 进行中 ${queue.inFlight}${limit}${queue.queued > 0 ? `, 排队 ${queue.queued}` : ''}`);
+    }
+    if (rulesCount > 0) {
+      lines.push(`路由规则: ${rulesCount}条 (优先于Haiku/Main映射)`);
+    }
+    lines.push('点击切换Main模型映射');
+    statusBarItem.tooltip = lines.join('\n');
+  };
+
   if (mainMapping === 'pass') {
     statusBarItem.text = '$(arrow-swap) Claude: 透传';
-  } else {
-    // 提取provider和model名称
-    const parts = mainMapping.split(':');
-    const modelName = parts.length > 1 ? parts[1] : mainMapping;
-    statusBarItem.text = `$(arrow-swap) Claude: ${modelName}`;
+    setTooltip([]);
+    return;
+  }
+
+  // 提取provider和model名称
+  const modelName = (target: string) => {
+    const colon = target.indexOf(':');
+    return colon < 0 ? target : target.substring(colon + 1);
+  };
+
+  const chain = parseMappingChain(mainMapping);
+  const primary = chain[0] || mainMapping;
+
+  if (activeMainTarget && activeMainTarget !== primary && chain.includes(activeMainTarget)) {
+    // 最近一次请求使用了备用目标
+    statusBarItem.text = `$(warning) Claude: ${modelName(activeMainTarget)} (备用)`;
+    setTooltip([`${primary} 不可用,最近一次请求使用了 ${activeMainTarget}`, `映射链: ${chain.join(' → ')}`]);
+    return;
+  }
+
+  const fallbackCount = chain.length - 1;
+  statusBarItem.text = `$(arrow-swap) Claude: ${modelName(primary)}${fallbackCount > 0 ? ` (+${fallbackCount})` : ''}`;
+  setTooltip(chain.length > 1 ? [`映射链: ${chain.join(' → ')}`] : []);
+}
+
+// 记录Main请求实际使用的目标,变化时刷新状态栏
+function setActiveMainTarget(label: string): void {
+  if (activeMainTarget === label) {
+    return;
   }
+  activeMainTarget = label;
+  updateStatusBarText();
+}
 
-  statusBarItem.tooltip = '点击切换Main模型映射';
+// sidecar进程状态
+function getSidecarStatus(provider: 'litellm' | 'cliproxyapi', child: ChildProcess | null): any {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  return {
+    enabled: config.get<boolean>(`providers.${provider}.enabled`, false),
+    running: !!child,
+    pid: child?.pid ?? null,
+    port: config.get<number>(`providers.${provider}.port`, provider === 'litellm' ? 4100 : 4200)
+  };
+}
+
+/**
+ * 处理非POST请求
+ * GET /v1/models[/id]: 已启用provider的模型列表 (Anthropic格式)
+ * GET /health: 监听端口、当前映射和sidecar进程状态
+ */
+async function handleNonPostRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const pathname = new URL(req.url || '/', 'http://127.0.0.1').pathname;
+  const sendJson = (status: number, body: any, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(req.method === 'HEAD' ? undefined : JSON.stringify(body));
+  };
+
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+
+  // Main映射为透传时 (alwaysProxy) 代理对客户端应是透明的: 除/health外都转发到Anthropic官方API
+  const mainPass = parseMappingChain(config.get<string>('mappings.main', 'pass'))[0] === 'pass';
+  if (mainPass && pathname !== '/health') {
+    await forwardNonPostRequest(req, res);
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendJson(405, anthropicError(405, `Method ${req.method} not allowed`), { allow: 'GET, HEAD, POST' });
+    return;
+  }
+
+  if (pathname === '/health') {
+    sendJson(200, {
+      status: 'ok',
+      port: currentProxyPort,
+      mappings: {
+        haiku: config.get<string>('mappings.haiku', 'pass'),
+        main: config.get<string>('mappings.main', 'pass'),
+        activeMainTarget
+      },
+      routingRules: config.get<RoutingRule[]>('routing.rules', []).length,
+      alwaysProxy: config.get<boolean>('alwaysProxy', false),
+      configTarget: getConfigTarget(),
+      providers: getProviders(config).filter(provider => provider.enabled).map(provider => provider.id),
+      sidecars: {
+        litellm: getSidecarStatus('litellm', litellmProcess),
+        cliproxyapi: getSidecarStatus('cliproxyapi', cliproxyapiProcess)
+      }
+    });
+    return;
+  }
+
+  if (pathname === '/v1/models' || pathname.startsWith('/v1/models/')) {
+    const models = await listModels(getProviders(config));
+    if (pathname === '/v1/models') {
+      sendJson(200, modelListResponse(models));
+      return;
+    }
+    const id = decodeURIComponent(pathname.substring('/v1/models/'.length));
+    const model = models.find(item => item.id === id || item.display_name === id);
+    if (model) {
+      sendJson(200, model);
+    } else {
+      sendJson(404, anthropicError(404, `model: ${id}`));
+    }
+    return;
+  }
+
+  sendJson(404, anthropicError(404, `${pathname} not found`));
+}
+
+// 原样转发非POST请求到透传目标 (如GET /v1/models、DELETE /v1/files/{id})
+async function forwardNonPostRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const clientAbort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      clientAbort.abort(new ClientAbortError());
+    }
+  });
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  const body = Buffer.concat(chunks);
+
+  const headers: any = {};
+  for (const [key, value] of Object.entries(req.headers)) {
+    // fetch会自动解压响应,不转发accept-encoding以免响应头与内容不符
+    if (['host', 'connection', 'content-length', 'accept-encoding'].includes(key.toLowerCase())) {
+      continue;
+    }
+    headers[key] = value;
+  }
+
+  console.log(`透传请求: ${req.method} ${req.url}`);
+  try {
+    const response = await fetch(`${PASS_TARGET.endpoint}${req.url}`, {
+      method: req.method,
+      headers,
+      body: body.length > 0 ? body : undefined,
+      signal: clientAbort.signal
+    });
+
+    const responseHeaders: any = {};
+    for (const [key, value] of response.headers.entries()) {
+      if (['connection', 'keep-alive', 'transfer-encoding', 'content-length', 'content-encoding'].includes(key.toLowerCase())) {
+        continue;
+      }
+      responseHeaders[key] = value;
+    }
+    res.writeHead(response.status, responseHeaders);
+
+    const reader = response.body?.getReader();
+    if (reader) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        res.write(value);
+      }
+    }
+    res.end();
+  } catch (error: any) {
+    if (error instanceof ClientAbortError || clientAbort.signal.aborted) {
+      console.log(`客户端已断开: ${req.method} ${req.url}`);
+      res.end();
+      return;
+    }
+    console.error(`透传请求失败: ${req.method} ${req.url}`, error);
+    if (!res.headersSent) {
+      res.writeHead(502, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(anthropicError(502, error.message)));
+    } else {
+      res.end();
+    }
+  }
 }
 
 // 展开路径中的~为home目录
@@ -442,6 +846,24 @@ function expandPath(filePath: string): string {
   return filePath;
 }
 
+// 获取sidecar日志文件路径 (配置文件的.yaml替换为.log)
+function getSidecarLogPath(provider: 'litellm' | 'cliproxyapi'): string {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const defaultPath = provider === 'litellm' ? '~/.claude/proxy/litellm.yaml' : '~/.claude/proxy/cliproxyapi.yaml';
+  const configPath = expandPath(config.get<string>(`providers.${provider}.configPath`, defaultPath));
+  return configPath.replace(/\.yaml$/, '.log');
+}
+
+// 轮转运行中的sidecar日志
+function rotateSidecarLogs(): void {
+  if (litellmProcess) {
+    rotateSidecarLog(getSidecarLogPath('litellm'));
+  }
+  if (cliproxyapiProcess) {
+    rotateSidecarLog(getSidecarLogPath('cliproxyapi'));
+  }
+}
+
 // 启动LiteLLM进程
 async function startLiteLLM(): Promise<void> {
   const config = vscode.workspace.getConfiguration('claudeProxy');
@@ -474,6 +896,9 @@ async function startLiteLLM(): Promise<void> {
   console.log(`启动LiteLLM: ${binPath} --config ${configPath} --host 127.0.0.1 --port ${port}`);
   console.log(`日志文件: ${logPath}`);
 
+  // 日志过大时先轮转
+  rotateSidecarLog(logPath);
+
   try {
     // 打开日志文件用于写入（追加模式）
     const logFd = fs.openSync(logPath, 'a');
@@ -558,6 +983,9 @@ async function startCLIProxyAPI(): Promise<void> {
   console.log(`启动CLIProxyAPI: ${binPath} --config ${configPath}`);
   console.log(`日志文件: ${logPath}`);
 
+  // 日志过大时先轮转
+  rotateSidecarLog(logPath);
+
   try {
     // 打开日志文件用于写入（追加模式）
     const logFd = fs.openSync(logPath, 'a');
@@ -609,137 +1037,230 @@ function stopCLIProxyAPI(): void {
 }
 
 /**
- * 带重试的fetch请求,专用于CLIProxyAPI
- * 如果第一次失败,重启CLIProxyAPI并重试一次
+ * 带重试的fetch请求
+ * 连接错误、重试列表中的状态码、overloaded_error时按指数退避重试 (遵循retry-after)
+ * 只在响应写回客户端之前重试; CLIProxyAPI连接失败时先重启再重试
  */
 async function fetchWithRetry(
   url: string,
   options: RequestInit,
-  provider: string
+  provider: string,
+  policy: Required<RetryPolicy>,
+  guard: UpstreamGuard,
+  onRetry: (attempt: { status?: number; error?: string; delayMs: number }) => void
 ): Promise<Response> {
-  try {
-    return await fetch(url, options);
-  } catch (error) {
-    // 如果是CLIProxyAPI且请求失败,尝试重启并重试
-    if (provider === 'cliproxyapi') {
-      console.warn('[CLIProxyAPI] 第一次请求失败,尝试重启并重试...', error);
-
-      // 重启CLIProxyAPI
-      stopCLIProxyAPI();
-      await startCLIProxyAPI();
-
-      // 等待进程启动
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // 重试请求
-      try {
-        return await fetch(url, options);
-      } catch (retryError) {
-        console.error('[CLIProxyAPI] 重试后仍然失败:', retryError);
-        throw retryError;
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= policy.maxAttempts;
+    guard.start();
+    let response: Response;
+    try {
+      response = await fetch(url, { ...options, signal: guard.signal });
+      guard.headersReceived();
+    } catch (error: any) {
+      // 超时或客户端断开导致的中止不重试
+      if (guard.signal.aborted || isLastAttempt) {
+        throw error;
+      }
+      let delay = retryDelay(attempt, policy, null)!;
+      if (provider === 'cliproxyapi') {
+        console.warn('[CLIProxyAPI] 请求失败,尝试重启并重试...', error);
+        stopCLIProxyAPI();
+        await startCLIProxyAPI();
+        // 等待进程启动
+        delay = Math.max(delay, 2000);
+      } else {
+        console.warn(`请求失败,${delay}ms后重试 (${attempt}/${policy.maxAttempts}):`, error.message);
       }
+      onRetry({ error: error.message, delayMs: delay });
+      guard.pause();
+      await sleep(delay, guard.signal);
+      continue;
     }
 
-    // 非CLIProxyAPI或其他情况,直接抛出错误
-    throw error;
+    if (isLastAttempt) {
+      return response;
+    }
+    const check = await checkRetryable(response, policy);
+    if (!check.retryable) {
+      return check.response;
+    }
+    const delay = retryDelay(attempt, policy, response.headers.get('retry-after'));
+    if (delay === null) {
+      return check.response;
+    }
+    console.warn(`上游返回 ${check.reason},${delay}ms后重试 (${attempt}/${policy.maxAttempts})`);
+    await check.response.body?.cancel().catch(() => undefined);
+    onRetry({ status: response.status, error: check.reason, delayMs: delay });
+    guard.pause();
+    await sleep(delay, guard.signal);
   }
 }
 
-// 过滤LiteLLM的空chunk
-function filterLiteLLMChunk(chunk: Uint8Array): Uint8Array {
-  const chunkStr = Buffer.from(chunk).toString('utf8');
-  const lines = chunkStr.split('\n');
-  const filteredLines: string[] = [];
-
-  let shouldSkip = false;
-  let currentEvent = '';
+/**
+ * 将OpenAI/Gemini响应转换为Anthropic格式并写回客户端
+ * 发给客户端的内容同时收集到responseChunks用于日志,返回流式处理的说明
+ */
+async function forwardTranslatedResponse(
+  format: 'openai' | 'gemini',
+  response: Response,
+  res: http.ServerResponse,
+  responseChunks: Uint8Array[],
+  requestModel: string,
+  stream: boolean,
+  reasoning: 'off' | 'thinking' | 'strip',
+  transforms: string[],
+  guard: UpstreamGuard
+): Promise<string[]> {
+  const send = (text: string) => {
+    if (!text) {
+      return;
+    }
+    const data = Buffer.from(text, 'utf8');
+    responseChunks.push(data);
+    res.write(data);
+  };
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+  // 错误响应统一转换为Anthropic错误格式
+  if (!response.ok) {
+    const errorText = await response.text();
+    res.writeHead(response.status, { 'content-type': 'application/json' });
+    send(JSON.stringify(upstreamToAnthropicError(response.status, errorText)));
+    res.end();
+    return [];
+  }
 
-    // 检测事件类型
-    if (line.startsWith('event:')) {
-      currentEvent = line.substring(6).trim();
-      shouldSkip = false;
-    }
+  if (!stream) {
+    const data = await response.json();
+    res.writeHead(response.status, { 'content-type': 'application/json' });
+    const notes: string[] = [];
+    const message = format === 'openai'
+      ? openAIToAnthropicResponse(data, requestModel, reasoning !== 'off', notes)
+      : geminiToAnthropicResponse(data, requestModel, reasoning !== 'off');
+    send(JSON.stringify(reasoning === 'off' ? message : applyReasoningToMessage(message, reasoning)));
+    res.end();
+    return notes;
+  }
 
-    // 检测data行
-    if (line.startsWith('data:')) {
-      const dataStr = line.substring(5).trim();
-      try {
-        const data = JSON.parse(dataStr);
-
-        // 过滤空的tool_use块
-        if (currentEvent === 'content_block_start' &&
-            data?.content_block?.type === 'tool_use' &&
-            data?.content_block?.input &&
-            Object.keys(data.content_block.input).length === 0) {
-          shouldSkip = true;
-          continue;
-        }
+  res.writeHead(response.status, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache'
+  });
 
-        // 过滤空的text块
-        if (currentEvent === 'content_block_start' &&
-            data?.content_block?.type === 'text' &&
-            data?.content_block?.text === '') {
-          shouldSkip = true;
-          continue;
-        }
-      } catch (e) {
-        // JSON解析失败,保留原始行
-      }
+  const translator: StreamTranslator = format === 'openai'
+    ? new OpenAIStreamTranslator(requestModel, reasoning !== 'off')
+    : new GeminiStreamTranslator(requestModel, reasoning !== 'off');
+  // 转换后的流再应用provider设置的转换,最后拆分<think>标签
+  const pipeline = transforms.length > 0 || reasoning !== 'off'
+    ? new SSEPipeline(transforms, reasoning === 'off' ? [] : [reasoningTransform(reasoning)])
+    : null;
+  const reader = response.body?.getReader();
+  if (reader) {
+    while (true) {
+      const { done, value } = await guard.read(reader);
+      if (done) break;
+      const text = translator.push(value);
+      send(pipeline ? pipeline.push(text) : text);
     }
+  }
+  const rest = translator.end();
+  send(pipeline ? pipeline.push(rest) + pipeline.end() : rest);
+  res.end();
+  return pipeline ? pipeline.notes : [];
+}
 
-    // 如果不应该跳过,添加到结果中
-    if (!shouldSkip) {
-      filteredLines.push(line);
-    }
+// 超时设置: 默认值 < 全局设置 < provider设置
+function getTimeouts(config: vscode.WorkspaceConfiguration, target: UpstreamTarget): Required<TimeoutSettings> {
+  return { ...DEFAULT_TIMEOUTS, ...config.get<TimeoutSettings>('timeouts', {}), ...(target.timeouts || {}) };
+}
 
-    // 空行表示事件结束
-    if (line === '' && !shouldSkip) {
-      currentEvent = '';
-    }
+// 重试策略: 默认值 < claudeProxy.retry < provider设置
+function getRetryPolicy(config: vscode.WorkspaceConfiguration, target: UpstreamTarget): Required<RetryPolicy> {
+  return { ...DEFAULT_RETRY_POLICY, ...config.get<RetryPolicy>('retry', {}), ...(target.retry || {}) };
+}
+
+// 代理错误写回客户端: 已开始流式响应时发送error事件,否则返回JSON错误
+function writeProxyError(res: http.ServerResponse, error: Error): void {
+  const status = error instanceof UpstreamTimeoutError ? 504 : error instanceof QueueTimeoutError ? 529 : 500;
+  const body = anthropicError(status, error.message);
+  if (!res.headersSent) {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+    return;
   }
+  if (String(res.getHeader('content-type') || '').includes('text/event-stream')) {
+    res.end(sseEvent('error', body));
+  } else {
+    res.end();
+  }
+}
 
-  return Buffer.from(filteredLines.join('\n'), 'utf8');
+/**
+ * 是否需要代理模式
+ * 开启alwaysProxy、Main映射不是pass,或存在直接指定目标的路由规则时需要代理
+ * alwaysProxy下pass由代理透明转发到api.anthropic.com,切换映射无需改写配置文件或重载窗口
+ */
+function isProxyRequired(mainMapping: string): boolean {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  if (config.get<boolean>('alwaysProxy', false)) {
+    return true;
+  }
+  if (mainMapping !== 'pass') {
+    return true;
+  }
+  const rules = config.get<RoutingRule[]>('routing.rules', []);
+  return rules.some(rule => rule?.target && !['pass', 'main', 'haiku'].includes(rule.target));
 }
 
 /**
  * 启动/重载时配置检查
  * 检查当前透传模式状态与配置文件是否一致，不一致则自动同步
+ * 返回是否修改了配置文件
  */
-async function checkConfigurationOnStartup(): Promise<void> {
+async function checkConfigurationOnStartup(): Promise<boolean> {
   clearGlobalProxyConfigIfExists();
+  clearInactiveProxyConfigs();
 
   const workspaceInfo = getSettingsInfo();
 
   const config = vscode.workspace.getConfiguration('claudeProxy');
   const mainMapping = config.get<string>('mappings.main', 'pass');
-  const isPassThrough = mainMapping === 'pass';
+  const isPassThrough = !isProxyRequired(mainMapping);
   const expectedProxyBaseUrl = `http://127.0.0.1:${currentProxyPort}`;
 
   if (isPassThrough) {
     if (workspaceInfo.hasProxyConfig) {
       setPassThroughMode();
       console.log('检测到透传模式(Main=pass)，已强制移除项目配置中的代理设置');
+      return true;
     }
-    return;
+    return false;
   }
 
   if (!workspaceInfo.hasProxyConfig || workspaceInfo.proxyBaseUrl !== expectedProxyBaseUrl) {
     setProxyMode();
     console.log('检测到代理模式(Main!=pass)，已在项目配置文件中同步当前代理端口');
+    return true;
   }
+  return false;
 }
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Claude Proxy 激活中...');
+  extensionContext = context;
+
+  // 加载安全存储中的API密钥
+  await initSecrets(context, getProviders(vscode.workspace.getConfiguration('claudeProxy')).map(provider => provider.id));
 
   // 启动时配置检查
   await checkConfigurationOnStartup();
 
-  // 清理旧的日志文件
-  cleanupOldLogs();
+  // 按保留策略清理旧的日志文件,并定期检查
+  applyLogRetention();
+  const logMaintenanceTimer = setInterval(() => {
+    applyLogRetention();
+    rotateSidecarLogs();
+  }, 10 * 60 * 1000);
+  context.subscriptions.push({ dispose: () => clearInterval(logMaintenanceTimer) });
 
   // 创建状态栏按钮
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -747,26 +1268,72 @@ export async function activate(context: vscode.ExtensionContext) {
   updateStatusBarText();
   statusBarItem.show();
   context.subscriptions.push(statusBarItem);
+  // 进行中/排队的请求数变化时刷新提示 (每个请求会触发多次变化,合并后每秒最多刷新一次)
+  let queueRefreshTimer: NodeJS.Timeout | undefined;
+  onQueueChange(() => {
+    if (!queueRefreshTimer) {
+      queueRefreshTimer = setTimeout(() => {
+        queueRefreshTimer = undefined;
+        updateStatusBarText();
+      }, 1000);
+    }
+  });
+  context.subscriptions.push({ dispose: () => clearTimeout(queueRefreshTimer) });
 
   // 监听配置变化,更新状态栏文本
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(e => {
       if (e.affectsConfiguration('claudeProxy.mappings.main')) {
+        activeMainTarget = null;
+        updateStatusBarText();
+      }
+      if (e.affectsConfiguration('claudeProxy.routing.rules') ||
+          e.affectsConfiguration('claudeProxy.budget') ||
+          e.affectsConfiguration('claudeProxy.pricing')) {
         updateStatusBarText();
       }
     })
   );
 
+  // alwaysProxy/configTarget切换时同步项目配置,配置文件变化后需重载窗口才能生效
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async e => {
+      if (e.affectsConfiguration('claudeProxy.terminal') && getConfigTarget() === 'terminal' && getSettingsInfo().hasProxyConfig) {
+        updateTerminalEnvironment(true);
+      }
+      if (!e.affectsConfiguration('claudeProxy.alwaysProxy') && !e.affectsConfiguration('claudeProxy.configTarget')) {
+        return;
+      }
+      const changed = await checkConfigurationOnStartup();
+      if (changed && getConfigTarget() === 'terminal') {
+        vscode.window.showInformationMessage('Claude Proxy 已更新集成终端环境变量,新建的终端生效');
+      } else if (changed) {
+        const choice = await vscode.window.showInformationMessage('Claude Proxy 已更新项目配置,重新加载窗口后生效', '重新加载');
+        if (choice === '重新加载') {
+          vscode.commands.executeCommand('workbench.action.reloadWindow');
+        }
+      }
+    })
+  );
+
   // 创建简单的透传代理服务器
   server = http.createServer(async (req, res) => {
-    // 只处理POST请求
+    // 非POST请求: /v1/models、/health
     if (req.method !== 'POST') {
-      res.writeHead(405);
-      res.end('Method Not Allowed');
+      await handleNonPostRequest(req, res);
       return;
     }
 
     console.log(`收到请求: ${req.method} ${req.url}`);
+    const startTime = Date.now();
+
+    // 客户端断开 (如在Claude Code中按Esc) 时中止上游请求,不再继续读取响应
+    const clientAbort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        clientAbort.abort(new ClientAbortError());
+      }
+    });
 
     // 收集请求体
     const chunks: Buffer[] = [];
@@ -783,138 +1350,333 @@ export async function activate(context: vscode.ExtensionContext) {
         // 非JSON请求体
       }
 
-      // 默认配置(透传)
-      let targetUrl = `https://api.anthropic.com${req.url}`;
-      let targetBody = body;
-      let targetHeaders: any = {};
-      let mappingInfo: any = null;
-      let currentProvider: string = 'pass';  // 用于重试逻辑
+      const originalModel: string = requestBody?.model || '';
+      let modelType = extractModelType(originalModel);
+      let targets: UpstreamTarget[] = [];
+      let rule: RoutingRule | undefined;
+      const replayTarget = req.headers[REPLAY_TARGET_HEADER] as string | undefined;
 
       // 如果请求体包含model字段,检查是否需要映射
       if (requestBody && requestBody.model) {
-        const originalModel = requestBody.model;
-        const modelType = extractModelType(originalModel);
-
+        // 获取目标配置链
+        ({ targets, modelType, rule } = await getTargetConfigs(requestBody, req.url, replayTarget));
         console.log(`原始模型: ${originalModel}, 类型: ${modelType}`);
+      }
 
-        // 获取目标配置
-        const targetConfig = await getTargetConfig(modelType);
+      // 重放指定的目标不可用时不回退到透传 (日志中的认证头已脱敏)
+      if (replayTarget && targets.length === 0) {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(anthropicError(400, `Replay target ${replayTarget} is not available`)));
+        return;
+      }
 
-        if (targetConfig) {
-          // 需要映射
-          console.log(`映射到: ${targetConfig.endpoint}, 模型: ${targetConfig.model}`);
+      if (targets.length === 0) {
+        console.log('使用透传模式');
+        targets = [PASS_TARGET];
+      }
 
-          // 提取provider名称
-          const config = vscode.workspace.getConfiguration('claudeProxy');
-          const mapping = config.get<string>(`mappings.${modelType}`, 'pass');
-          if (mapping !== 'pass') {
-            const parts = mapping.split(':');
-            currentProvider = parts[0];
-          }
+      const config = vscode.workspace.getConfiguration('claudeProxy');
+
+      // 图片/文档: 目标不支持时改用视觉备用目标,没有可用的备用目标时按能力配置替换为占位文本
+      let visionDecision: string | undefined;
+      const media = requestBody ? unsupportedMedia(requestBody, targets[0].capabilities) : [];
+      if (media.length > 0) {
+        const visionTarget = replayTarget ? '' : config.get<string>('vision.fallbackTarget', '');
+        const visionTargets = visionTarget
+          ? resolveMapping(config, visionTarget).filter(item => unsupportedMedia(requestBody, item.capabilities).length === 0)
+          : [];
+        if (visionTargets.length > 0) {
+          visionDecision = `${targets[0].label} does not support ${media.join('/')}, rerouted to ${visionTargets[0].label}`;
+          targets = visionTargets;
+        } else {
+          visionDecision = `${targets[0].label} does not support ${media.join('/')}, replaced with text placeholders`;
+        }
+        console.log(`请求包含${media.join('/')}: ${visionDecision}`);
+      }
 
-          // 记录映射信息
-          mappingInfo = {
-            originalModel,
-            targetModel: targetConfig.model,
-            endpoint: targetConfig.endpoint,
-            modelType,
-            provider: currentProvider
-          };
+      // 应用预算: 达到软限制时Main请求改用降级目标,达到硬限制时拒绝请求
+      const downgradeTarget = config.get<string>('budget.downgradeTarget', '');
+      const canDowngrade = modelType === 'main' && !!requestBody?.model && !!downgradeTarget &&
+        !replayTarget && !(rule && rule.target !== 'main');
+      const budget = applyBudgets(targets, canDowngrade ? () => resolveMapping(config, downgradeTarget) : null);
+      if (budget.blocked) {
+        console.warn(`预算已达到硬限制: ${budget.blocked.label}`);
+        notifyBudgetAlerts();
+        updateStatusBarText();
+        // 使用不可重试的错误,429会让Claude Code不断退避重试
+        res.writeHead(403, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(anthropicError(403, `Budget exceeded: ${budget.blocked.label} (${describeBudget(budget.blocked)})`)));
+        return;
+      }
+      if (budget.downgraded) {
+        console.log(`预算已达到${budget.downgraded.level === 'hard' ? '硬' : '软'}限制: ${budget.downgraded.label},改用 ${downgradeTarget}`);
+      }
+      targets = budget.targets;
 
-          // 修改请求体中的模型
-          if (targetConfig.model) {
-            requestBody.model = targetConfig.model;
-            targetBody = Buffer.from(JSON.stringify(requestBody), 'utf8');
+      // count_tokens: 映射目标按provider设置转发或本地估算
+      const isCountTokens = new URL(req.url || '/', 'http://127.0.0.1').pathname === '/v1/messages/count_tokens';
+      if (isCountTokens && requestBody && targets[0].countTokens && targets[0].countTokens !== 'forward') {
+        try {
+          await handleCountTokens(targets[0], req, res, body, requestBody, originalModel, startTime, getTimeouts(config, targets[0]), clientAbort.signal);
+        } catch (error: any) {
+          if (error instanceof ClientAbortError) {
+            res.end();
+            return;
           }
-
-          // 设置目标URL
-          targetUrl = `${targetConfig.endpoint}${req.url}`;
-
-          // 设置认证
-          if (targetConfig.apiKey) {
-            if (targetConfig.authMethod === 'x-api-key') {
-              targetHeaders['x-api-key'] = targetConfig.apiKey;
-            } else if (targetConfig.authMethod === 'token') {
-              targetHeaders['authorization'] = `Bearer ${targetConfig.apiKey}`;
-            }
+          console.error('count_tokens处理错误:', error.message);
+          if (!res.headersSent) {
+            res.writeHead(500, { 'content-type': 'application/json' });
           }
-        } else {
-          console.log('使用透传模式');
+          res.end(JSON.stringify(anthropicError(500, error.message)));
         }
+        return;
       }
 
-      console.log(`转发到: ${targetUrl}`);
+      // 依次尝试映射链中的目标,失败(连接错误/429/5xx)时切换到下一个
+      const attempts: any[] = [];
+      let target: UpstreamTarget = targets[0];
+      let upstream: UpstreamRequest | null = null;
+      let guard: UpstreamGuard | null = null;
+      // 当前目标provider的并发名额
+      let releaseSlot: (() => void) | null = null;
 
       try {
-        // 准备请求头
-        const forwardHeaders: any = { ...targetHeaders };
-        for (const [key, value] of Object.entries(req.headers)) {
-          const lowerKey = key.toLowerCase();
-          // 跳过host和connection等代理相关的头
-          if (['host', 'connection', 'content-length'].includes(lowerKey)) {
+        let response: Response | null = null;
+
+        for (let i = 0; i < targets.length; i++) {
+          target = targets[i];
+          const isLast = i === targets.length - 1;
+          const failedKeys: string[] = [];
+          // 切换目标: 释放上一个目标的并发名额和中止控制
+          releaseSlot?.();
+          releaseSlot = null;
+          guard?.dispose();
+          guard = null;
+
+          // 同一目标内: 密钥被冷却(429/401)且密钥池中还有可用密钥时换密钥重试
+          while (true) {
+            upstream = buildUpstreamRequest(target, req, body, requestBody, failedKeys);
+            if (!upstream) {
+              break;
+            }
+
+            console.log(`转发到: ${upstream.url}${target.model ? `, 模型: ${target.model}` : ''}`);
+            if (upstream.removed.length > 0) {
+              console.log(`${target.label} 不支持,已删除: ${upstream.removed.join('; ')}`);
+            }
+
+            // provider的并发请求数达到上限时排队,排队超时视为该目标失败
+            if (!releaseSlot) {
+              try {
+                releaseSlot = await acquireSlot(target.provider, target.maxConcurrency || 0, config.get<number>('concurrency.queueTimeoutMs', 60000), clientAbort.signal);
+              } catch (error: any) {
+                if (!(error instanceof QueueTimeoutError)) {
+                  throw error;
+                }
+                attempts.push({ target: target.label, error: error.message });
+                if (isLast) {
+                  throw error;
+                }
+                console.warn(`${target.label} 排队超时,切换到下一个目标`);
+                break;
+              }
+            }
+
+            // 密钥池中还有其他可用密钥时429交给换密钥处理,不在同一个密钥上重试
+            const retryPolicy = getRetryPolicy(config, target);
+            if (upstream.apiKey && hasAvailableKey(target.provider, target.apiKeys, [...failedKeys, upstream.apiKey])) {
+              retryPolicy.statuses = retryPolicy.statuses.filter(status => status !== 429);
+            }
+
+            guard?.dispose();
+            guard = new UpstreamGuard(getTimeouts(config, target), !!requestBody?.stream, clientAbort.signal);
+            const currentTarget = target;
+            try {
+              response = await fetchWithRetry(upstream.url, {
+                method: 'POST',
+                headers: upstream.headers,
+                body: upstream.body
+              }, target.provider, retryPolicy, guard, retry => {
+                attempts.push({ target: currentTarget.label, ...retry });
+              });
+            } catch (error: any) {
+              const reason = guard.resolveError(error);
+              if (reason instanceof ClientAbortError) {
+                throw reason;
+              }
+              attempts.push({ target: target.label, error: reason.message });
+              if (isLast) {
+                throw reason;
+              }
+              console.warn(`${target.label} 请求失败,切换到下一个目标:`, reason.message);
+              break;
+            }
+
+            if (!upstream.apiKey) {
+              break;
+            }
+
+            const cooldownSeconds = vscode.workspace.getConfiguration('claudeProxy').get<number>('keyRotation.cooldownSeconds', 60);
+            const benched = reportKeyResult(target.provider, upstream.apiKey, response.status, response.headers.get('retry-after'), cooldownSeconds);
+            if (!benched) {
+              break;
+            }
+            failedKeys.push(upstream.apiKey);
+            if (!hasAvailableKey(target.provider, target.apiKeys, failedKeys)) {
+              break;
+            }
+            attempts.push({ target: target.label, status: response.status, keyRotated: true });
+            await response.body?.cancel().catch(() => undefined);
+            response = null;
+          }
+
+          if (!upstream) {
+            console.warn(`${target.label} 不支持 ${req.url}`);
+            attempts.push({ target: target.label, error: 'unsupported endpoint' });
             continue;
           }
-          // 如果已经在targetHeaders中设置了认证,跳过原始认证头
-          if ((lowerKey === 'x-api-key' || lowerKey === 'authorization') &&
-              (targetHeaders['x-api-key'] || targetHeaders['authorization'])) {
+
+          if (!response) {
+            continue;
+          }
+
+          if (!isLast && shouldFallback(response.status)) {
+            attempts.push({ target: target.label, status: response.status });
+            console.warn(`${target.label} 返回 ${response.status},切换到下一个目标`);
+            await response.body?.cancel().catch(() => undefined);
+            response = null;
             continue;
           }
-          forwardHeaders[key] = value;
+
+          break;
         }
 
-        const response = await fetchWithRetry(targetUrl, {
-          method: 'POST',
-          headers: forwardHeaders,
-          body: targetBody
-        }, currentProvider);
+        if (!response || !upstream) {
+          const pathname = new URL(req.url || '/', 'http://127.0.0.1').pathname;
+          res.writeHead(404, { 'content-type': 'application/json' });
+          res.end(JSON.stringify(anthropicError(404, `${pathname} is not supported by ${target.provider} provider`)));
+          return;
+        }
+
+        const currentProvider = target.provider;
+        const targetFormat = target.format;
+        const reasoningMode = resolveReasoningMode(target.reasoning, requestBody);
+
+        // 记录映射信息 (实际使用的目标)
+        // 直接透传且未改写请求/响应时日志中不记录映射信息
+        const plainPass = target.provider === 'pass' && attempts.length === 0 && !rule && !visionDecision;
+        const mappingInfo: any = {
+          originalModel,
+          targetModel: target.model,
+          endpoint: target.endpoint,
+          modelType,
+          provider: currentProvider,
+          target: target.label,
+          rule: rule ? (rule.name || rule.target) : undefined,
+          replay: replayTarget ? true : undefined,
+          budget: budget.downgraded ? budget.downgraded.label : undefined,
+          vision: visionDecision,
+          removed: upstream.removed.length > 0 ? upstream.removed : undefined,
+          attempts
+        };
+
+        // 路由规则直接指定的目标不影响Main映射的状态栏显示
+        const routedByRule = !!rule && rule.target !== 'main';
+        if (modelType === 'main' && requestBody?.model && !routedByRule && !replayTarget) {
+          setActiveMainTarget(target.label);
+        }
 
         // 收集响应数据用于日志
         const responseChunks: Uint8Array[] = [];
 
-        // 复制响应头 - 转发所有必要的头部
-        const responseHeaders: any = {};
-        for (const [key, value] of response.headers.entries()) {
-          const lowerKey = key.toLowerCase();
-          // 跳过一些不应该转发的头部
-          if (['connection', 'keep-alive', 'transfer-encoding', 'content-length'].includes(lowerKey)) {
-            continue;
+        if (targetFormat !== 'anthropic') {
+          // 非Anthropic格式: 转换响应后再发给客户端
+          const notes = await forwardTranslatedResponse(targetFormat, response, res, responseChunks, originalModel, !!requestBody?.stream, reasoningMode, target.streamTransforms || [], guard!);
+          if (notes.length > 0) {
+            mappingInfo.streamNotes = notes;
+          }
+        } else {
+          // 复制响应头 - 转发所有必要的头部
+          const responseHeaders: any = {};
+          for (const [key, value] of response.headers.entries()) {
+            const lowerKey = key.toLowerCase();
+            // 跳过一些不应该转发的头部
+            if (['connection', 'keep-alive', 'transfer-encoding', 'content-length'].includes(lowerKey)) {
+              continue;
+            }
+            responseHeaders[key] = value;
           }
-          responseHeaders[key] = value;
-        }
-
-        // 确保有 content-type
-        if (!responseHeaders['content-type']) {
-          responseHeaders['content-type'] = 'application/json';
-        }
 
-        res.writeHead(response.status, responseHeaders);
+          // 确保有 content-type
+          if (!responseHeaders['content-type']) {
+            responseHeaders['content-type'] = 'application/json';
+          }
 
-        // 流式转发响应并收集数据
-        const reader = response.body?.getReader();
-        // 只对LiteLLM provider应用空chunk过滤
-        const shouldFilterEmptyChunks = currentProvider === 'litellm';
+          // 流式转发响应并收集数据
+          const reader = response.body?.getReader();
+          // 配置了流式响应转换或推理内容处理时,经过SSE管线后再发给客户端
+          const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+          const extraTransforms: SSETransformFactory[] = reasoningMode === 'off' ? [] : [reasoningTransform(reasoningMode)];
+          const pipeline = isEventStream && ((target.streamTransforms && target.streamTransforms.length > 0) || extraTransforms.length > 0)
+            ? new SSEPipeline(target.streamTransforms || [], extraTransforms)
+            : null;
+          const decoder = new TextDecoder();
+
+          const writeText = (text: string) => {
+            if (text) {
+              const chunk = Buffer.from(text, 'utf8');
+              responseChunks.push(chunk);
+              res.write(chunk);
+            }
+          };
 
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            // 如果是LiteLLM,过滤空chunk
-            let processedValue = value;
-            if (shouldFilterEmptyChunks) {
-              processedValue = filterLiteLLMChunk(value);
-              // 如果过滤后为空,跳过
-              if (processedValue.length === 0) {
-                continue;
+          if (!isEventStream) {
+            // 非流式响应: 读取完整响应体后再发给客户端 (读取超时时仍可返回错误响应)
+            const chunks: Uint8Array[] = [];
+            if (reader) {
+              while (true) {
+                const { done, value } = await guard!.read(reader);
+                if (done) break;
+                chunks.push(value);
               }
             }
+            let data = Buffer.concat(chunks);
+            if (response.ok && reasoningMode !== 'off') {
+              try {
+                data = Buffer.from(JSON.stringify(applyReasoningToMessage(JSON.parse(data.toString('utf8')), reasoningMode)), 'utf8');
+              } catch (e) {
+                // 非JSON响应原样返回
+              }
+            }
+            res.writeHead(response.status, responseHeaders);
+            responseChunks.push(data);
+            res.write(data);
+          } else {
+            res.writeHead(response.status, responseHeaders);
+            if (reader) {
+              while (true) {
+                const { done, value } = await guard!.read(reader);
+                if (done) break;
+
+                if (pipeline) {
+                  writeText(pipeline.push(decoder.decode(value, { stream: true })));
+                } else {
+                  responseChunks.push(value);
+                  res.write(value);
+                }
+              }
+            }
+          }
 
-            responseChunks.push(processedValue);
-            res.write(processedValue);
+          if (pipeline) {
+            writeText(pipeline.push(decoder.decode()) + pipeline.end());
+            if (pipeline.notes.length > 0) {
+              mappingInfo.streamNotes = pipeline.notes;
+            }
           }
-        }
 
-        res.end();
+          res.end();
+        }
         console.log(`请求完成: ${response.status}`);
 
         // 保存日志 - 记录实际发送的内容
@@ -958,25 +1720,52 @@ export async function activate(context: vscode.ExtensionContext) {
           }
         }
 
+        // 记录token用量 (不依赖JSON日志开关)
+        const usage = response.ok ? extractUsage(responseBody) : null;
+        if (usage && config.get<boolean>('usage.enabled', true)) {
+          const usageRecord: UsageRecord = {
+            timestamp: new Date().toISOString(),
+            workspace: getWorkspaceName(),
+            provider: usageProvider(currentProvider),
+            model: target.model || originalModel,
+            requestModel: originalModel,
+            inputTokens: usage.input_tokens || 0,
+            outputTokens: usage.output_tokens || 0,
+            cacheReadTokens: usage.cache_read_input_tokens || 0,
+            cacheWriteTokens: usage.cache_creation_input_tokens || 0
+          };
+          recordUsage(usageRecord);
+          addBudgetUsage(usageRecord);
+          notifyBudgetAlerts();
+          updateStatusBarText();
+        }
+
         await saveLog(
           {
             url: req.url,
             method: req.method,
-            headers: forwardHeaders,  // 使用实际发送的headers
-            body: requestBody,  // 使用修改后的body(如果有映射)
-            mapping: mappingInfo  // 添加映射信息
+            headers: upstream.headers,  // 使用实际发送的headers
+            body: requestBody && target.model ? { ...requestBody, model: target.model } : requestBody,  // 使用修改后的body(如果有映射)
+            mapping: plainPass && !mappingInfo.removed && !mappingInfo.streamNotes ? null : mappingInfo  // 添加映射信息
           },
           {
             status: response.status,
             headers: Object.fromEntries(response.headers.entries()),
-            body: responseBody
+            body: responseBody,
+            durationMs: Date.now() - startTime
           }
         );
 
       } catch (error: any) {
-        console.error('代理错误:', error.message);
-        res.writeHead(500);
-        res.end(JSON.stringify({ error: error.message }));
+        const reason = guard ? guard.resolveError(error) : error;
+        if (reason instanceof ClientAbortError) {
+          // 客户端已断开,无需返回错误
+          console.log('客户端已断开,已中止上游请求');
+          res.end();
+        } else {
+          console.error('代理错误:', reason.message);
+          writeProxyError(res, reason);
+        }
 
         // 保存错误日志
         await saveLog(
@@ -984,11 +1773,15 @@ export async function activate(context: vscode.ExtensionContext) {
             url: req.url,
             method: req.method,
             headers: req.headers,
-            body: requestBody
+            body: requestBody,
+            mapping: attempts.length > 0 ? { modelType, target: target.label, attempts } : null
           },
           null,
-          error.message
+          reason.message
         );
+      } finally {
+        guard?.dispose();
+        releaseSlot?.();
       }
     });
   });
@@ -1044,9 +1837,63 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // 注册命令: 设置provider的API密钥
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.setApiKey', async () => {
+      await setProviderApiKey();
+    })
+  );
+
+  // 注册命令: 迁移明文API密钥到安全存储
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.migrateApiKeys', async () => {
+      await migrateApiKeys();
+    })
+  );
+
+  // 注册命令: 查看API密钥状态
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.showKeyHealth', async () => {
+      await showKeyHealth();
+    })
+  );
+
+  // 注册命令: 打开请求日志浏览器
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.openLogExplorer', () => {
+      openLogExplorer(context);
+    })
+  );
+
+  // 注册命令: 打开用量统计
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.openUsageDashboard', () => {
+      openUsageDashboard(context);
+    })
+  );
+
+  // 注册命令: 重放日志中的请求 (日志浏览器右键菜单)
+  registerReplayContentProvider(context);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('claudeProxy.replayLogEntry', async (args?: { index?: number }) => {
+      if (!server || typeof args?.index !== 'number') {
+        vscode.window.showErrorMessage(server ? '请在请求日志浏览器中选择要重放的请求' : '代理服务器未运行,无法重放请求');
+        return;
+      }
+      await replayLogEntry(args.index, currentProxyPort);
+    })
+  );
+
+  // 检测到明文密钥时提示迁移 (选择不再提示后不再询问)
+  promptApiKeyMigration(context);
+
   // 监听配置变化,重启LiteLLM
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (e.affectsConfiguration('claudeProxy.providers.registry')) {
+        // registry可能新增provider,加载其安全存储中的密钥
+        await loadSecretKeys(getProviders(vscode.workspace.getConfiguration('claudeProxy')).map(provider => provider.id));
+      }
       if (e.affectsConfiguration('claudeProxy.providers.litellm')) {
         console.log('LiteLLM配置已更改,重启进程...');
         stopLiteLLM();
@@ -1073,6 +1920,18 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 }
 
+/**
+ * 配置文件变化后重载窗口使其生效
+ * terminal模式下新建的终端自动使用新环境变量,无需重载
+ */
+function reloadWindowIfNeeded(): void {
+  if (getConfigTarget() === 'terminal') {
+    vscode.window.showInformationMessage('已更新集成终端环境变量,新建的终端生效');
+    return;
+  }
+  vscode.commands.executeCommand('workbench.action.reloadWindow');
+}
+
 /**
  * 选择映射目标
  */
@@ -1082,75 +1941,13 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
   // 收集所有可用的目标
   const targets: string[] = ['pass'];
 
-  // 添加Anthropic provider的模型
-  const anthropicEnabled = config.get<boolean>('providers.anthropic.enabled', false);
-  if (anthropicEnabled) {
-    const anthropicModels = config.get<string[]>('providers.anthropic.models', []);
-    for (const model of anthropicModels) {
-      targets.push(`anthropic:${model}`);
-    }
-  }
-
-  // 添加GLM provider的模型
-  const glmEnabled = config.get<boolean>('providers.glm.enabled', false);
-  if (glmEnabled) {
-    const glmModels = config.get<string[]>('providers.glm.models', []);
-    for (const model of glmModels) {
-      targets.push(`glm:${model}`);
-    }
-  }
-
-  // 添加Kimi provider的模型
-  const kimiEnabled = config.get<boolean>('providers.kimi.enabled', false);
-  if (kimiEnabled) {
-    const kimiModels = config.get<string[]>('providers.kimi.models', []);
-    for (const model of kimiModels) {
-      targets.push(`kimi:${model}`);
-    }
-  }
-
-  // 添加MiniMax provider的模型
-  const minimaxEnabled = config.get<boolean>('providers.minimax.enabled', false);
-  if (minimaxEnabled) {
-    const minimaxModels = config.get<string[]>('providers.minimax.models', []);
-    for (const model of minimaxModels) {
-      targets.push(`minimax:${model}`);
-    }
-  }
-
-  // 添加DeepSeek provider的模型
-  const deepseekEnabled = config.get<boolean>('providers.deepseek.enabled', false);
-  if (deepseekEnabled) {
-    const deepseekModels = config.get<string[]>('providers.deepseek.models', []);
-    for (const model of deepseekModels) {
-      targets.push(`deepseek:${model}`);
-    }
-  }
-
-  // 添加自定义Provider的模型
-  const customEnabled = config.get<boolean>('providers.custom.enabled', false);
-  if (customEnabled) {
-    const customModels = config.get<string[]>('providers.custom.models', []);
-    for (const model of customModels) {
-      targets.push(`custom:${model}`);
-    }
-  }
-
-  // 添加LiteLLM provider的模型
-  const litellmEnabled = config.get<boolean>('providers.litellm.enabled', false);
-  if (litellmEnabled) {
-    const litellmModels = config.get<string[]>('providers.litellm.models', []);
-    for (const model of litellmModels) {
-      targets.push(`litellm:${model}`);
+  // 添加所有已启用provider的模型
+  for (const provider of getProviders(config)) {
+    if (!provider.enabled) {
+      continue;
     }
-  }
-
-  // 添加CLIProxyAPI provider的模型
-  const cliproxyapiEnabled = config.get<boolean>('providers.cliproxyapi.enabled', false);
-  if (cliproxyapiEnabled) {
-    const cliproxyapiModels = config.get<string[]>('providers.cliproxyapi.models', []);
-    for (const model of cliproxyapiModels) {
-      targets.push(`cliproxyapi:${model}`);
+    for (const model of provider.models) {
+      targets.push(`${provider.id}:${model}`);
     }
   }
 
@@ -1164,13 +1961,33 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
     picked: target === currentMapping
   }));
 
+  // 当前映射是备用链时单独显示,另提供编辑映射链的入口
+  const isChain = parseMappingChain(currentMapping).length > 1;
+  if (isChain) {
+    items.unshift({ label: `$(check) ${currentMapping}`, description: '当前映射链', picked: true });
+  }
+  const editChainLabel = '$(list-ordered) 编辑映射链...';
+  items.push({ label: editChainLabel, description: '按顺序尝试多个目标,如 glm:glm-4.6 → kimi:k2', picked: false });
+
   // 显示选择框
   const selected = await vscode.window.showQuickPick(items, {
     placeHolder: `选择${modelType === 'haiku' ? 'Haiku' : 'Main(Sonnet/Opus)'}模型的映射目标`
   });
 
   if (selected) {
-    const targetValue = selected.label.replace(/^\$\(check\)\s+/, '');
+    let targetValue = selected.label.replace(/^\$\(check\)\s+/, '');
+
+    if (selected.label === editChainLabel) {
+      const input = await vscode.window.showInputBox({
+        prompt: '输入映射链,目标之间用 → 或 -> 分隔,前一个目标失败(连接错误/429/5xx)时使用下一个',
+        value: currentMapping,
+        validateInput: value => parseMappingChain(value).length === 0 ? '映射链不能为空' : null
+      });
+      if (!input) {
+        return;
+      }
+      targetValue = parseMappingChain(input).join(' → ');
+    }
     const previousMapping = config.get<string>(`mappings.${modelType}`, 'pass');
 
     await config.update(`mappings.${modelType}`, targetValue, vscode.ConfigurationTarget.Workspace);
@@ -1182,9 +1999,9 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
     const currentMainMapping = config.get<string>('mappings.main', 'pass');
     const newMainMapping = modelType === 'main' ? targetValue : currentMainMapping;
 
-    // 只有当 Main 模型不是 'pass' 时，才启用代理模式
+    // 只有当 Main 模型不是 'pass' (或有路由规则直接指定目标) 时，才启用代理模式
     // 如果 Main 是 'pass'，强制使用透传模式（忽略 Haiku 的设置）
-    const shouldEnableProxy = newMainMapping !== 'pass';
+    const shouldEnableProxy = isProxyRequired(newMainMapping);
 
     if (!shouldEnableProxy) {
       // 目标是透传模式 (Main == pass)
@@ -1196,7 +2013,7 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
       if (anyHasProxy) {
          console.log('Main模型为透传，强制切换到系统透传模式');
          setPassThroughMode();
-         vscode.commands.executeCommand('workbench.action.reloadWindow');
+         reloadWindowIfNeeded();
       }
     } else {
       // 目标是代理模式 (Main != pass)
@@ -1205,7 +2022,7 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
       if (!workspaceInfo.hasProxyConfig) {
          console.log('Main模型需要映射，强制切换到系统代理模式');
          setProxyMode();
-         vscode.commands.executeCommand('workbench.action.reloadWindow');
+         reloadWindowIfNeeded();
       }
     }
 
@@ -1216,6 +2033,115 @@ async function selectMapping(modelType: 'haiku' | 'main'): Promise<void> {
   }
 }
 
+/**
+ * 为provider设置API密钥 (保存到安全存储)
+ */
+async function setProviderApiKey(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+
+  const items = getProviders(config).map(provider => {
+    const stored = getSecretKeys(provider.id).length;
+    return {
+      label: provider.id,
+      description: provider.enabled ? '' : '未启用',
+      detail: stored > 0 ? `安全存储中已有 ${stored} 个密钥` : provider.apiKeys.length > 0 ? '使用设置中的明文密钥' : '未设置密钥'
+    };
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: '选择要设置API密钥的provider'
+  });
+  if (!selected) {
+    return;
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: `输入 ${selected.label} 的API密钥,多个密钥用逗号分隔;留空则删除已保存的密钥`,
+    password: true,
+    ignoreFocusOut: true
+  });
+  if (input === undefined) {
+    return;
+  }
+
+  const keys = input.split(',').map(key => key.trim()).filter(key => key.length > 0);
+  await setSecretKeys(selected.label, keys);
+  vscode.window.showInformationMessage(keys.length > 0
+    ? `已保存 ${selected.label} 的 ${keys.length} 个API密钥到安全存储`
+    : `已删除 ${selected.label} 在安全存储中的API密钥`);
+}
+
+/**
+ * 将settings.json中的明文密钥迁移到安全存储
+ */
+async function migrateApiKeys(): Promise<void> {
+  if (!hasPlaintextKeys(BUILTIN_PROVIDER_IDS)) {
+    vscode.window.showInformationMessage('设置中没有明文API密钥');
+    return;
+  }
+  try {
+    const count = await migratePlaintextKeys(BUILTIN_PROVIDER_IDS);
+    vscode.window.showInformationMessage(`已将 ${count} 个provider的API密钥迁移到安全存储,并清除了设置中的明文密钥`);
+  } catch (error: any) {
+    console.error('迁移API密钥失败:', error);
+    vscode.window.showErrorMessage(`迁移API密钥失败: ${error.message}`);
+  }
+}
+
+// 启动时检测明文密钥并提示迁移
+async function promptApiKeyMigration(context: vscode.ExtensionContext): Promise<void> {
+  if (context.globalState.get<boolean>('apiKeyMigrationDismissed', false) || !hasPlaintextKeys(BUILTIN_PROVIDER_IDS)) {
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    'Claude Proxy: 设置中保存了明文API密钥,是否迁移到VS Code安全存储?',
+    '迁移',
+    '不再提示'
+  );
+  if (choice === '迁移') {
+    await migrateApiKeys();
+  } else if (choice === '不再提示') {
+    await context.globalState.update('apiKeyMigrationDismissed', true);
+  }
+}
+
+/**
+ * 显示各provider密钥池的健康状态
+ */
+async function showKeyHealth(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+
+  const items: vscode.QuickPickItem[] = [];
+  for (const provider of getProviders(config)) {
+    if (!provider.enabled || provider.apiKeys.length === 0) {
+      continue;
+    }
+    items.push({ label: provider.id, kind: vscode.QuickPickItemKind.Separator });
+    for (const health of getKeyHealth(provider.id, provider.apiKeys)) {
+      const status = health.cooldownRemaining > 0
+        ? `$(clock) 冷却中 (剩余 ${health.cooldownRemaining}s)`
+        : '$(pass) 可用';
+      items.push({
+        label: health.key,
+        description: status,
+        detail: `使用次数: ${health.uses}` +
+          (health.lastUsed ? `, 最近使用: ${new Date(health.lastUsed).toLocaleTimeString()}` : '') +
+          (health.lastStatus ? `, 最近状态: ${health.lastStatus}` : '')
+      });
+    }
+  }
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('没有已启用且配置了API密钥的provider');
+    return;
+  }
+
+  await vscode.window.showQuickPick(items, {
+    placeHolder: 'API密钥状态',
+    matchOnDescription: true
+  });
+}
+
 export function deactivate() {
   if (server) {
     server.close();
@@ -0,0 +1,404 @@
+/**
+ * Anthropic Messages <-> Google Gemini generateContent 格式转换
+ */
+
+import { StreamTranslator, anthropicError, systemToText, randomId } from './anthropic';
+import { AnthropicStreamWriter } from './sse';
+
+// Gemini的函数参数只支持OpenAPI Schema子集,这些JSON Schema字段会被拒绝
+const UNSUPPORTED_SCHEMA_KEYS = [
+  '$schema',
+  '$id',
+  '$ref',
+  '$comment',
+  'additionalProperties',
+  'default',
+  'examples',
+  'const',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'propertyNames',
+  'patternProperties'
+];
+
+// 递归清理JSON Schema中Gemini不支持的字段
+function cleanSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(cleanSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const result: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.includes(key)) {
+      continue;
+    }
+    if (key === 'properties' && value && typeof value === 'object') {
+      // properties的键是字段名,不能当作schema关键字过滤
+      result.properties = {};
+      for (const [name, propSchema] of Object.entries(value as any)) {
+        result.properties[name] = cleanSchema(propSchema);
+      }
+      continue;
+    }
+    result[key] = cleanSchema(value);
+  }
+  return result;
+}
+
+// Anthropic image/document block -> Gemini part
+function mediaToPart(block: any): any | null {
+  const source = block?.source;
+  if (!source) {
+    return null;
+  }
+  if (source.type === 'base64') {
+    return { inlineData: { mimeType: source.media_type, data: source.data } };
+  }
+  if (source.type === 'url') {
+    return { fileData: { fileUri: source.url } };
+  }
+  if (source.type === 'text') {
+    return { text: source.data };
+  }
+  return null;
+}
+
+// tool_result的content转换为functionResponse的response对象
+function toolResultToResponse(block: any): any {
+  let text = '';
+  if (typeof block.content === 'string') {
+    text = block.content;
+  } else if (Array.isArray(block.content)) {
+    text = block.content
+      .filter((item: any) => item?.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+  }
+  return block.is_error ? { error: text } : { content: text };
+}
+
+// Gemini思考模型的functionCall part带有thoughtSignature,多轮工具调用时必须原样发回
+// Anthropic的tool_use块没有对应字段,以base64url编码在tool_use id中 (符合id的字符限制,客户端会原样带回)
+const SIGNATURE_MARKER = '__ts__';
+
+function encodeToolUseId(part: any): string {
+  const id = part.functionCall.id || randomId('toolu');
+  if (!part.thoughtSignature) {
+    return id;
+  }
+  return `${id}${SIGNATURE_MARKER}${Buffer.from(part.thoughtSignature, 'base64').toString('base64url')}`;
+}
+
+function decodeThoughtSignature(id: string): string | undefined {
+  const position = typeof id === 'string' ? id.indexOf(SIGNATURE_MARKER) : -1;
+  if (position < 0) {
+    return undefined;
+  }
+  return Buffer.from(id.substring(position + SIGNATURE_MARKER.length), 'base64url').toString('base64');
+}
+
+// 转换单条消息的content为Gemini parts,toolNames用于按tool_use_id查找函数名
+function convertParts(message: any, toolNames: Map<string, string>): any[] {
+  if (typeof message.content === 'string') {
+    return message.content ? [{ text: message.content }] : [];
+  }
+
+  const parts: any[] = [];
+  for (const block of message.content || []) {
+    if (block?.type === 'text') {
+      if (block.text) {
+        parts.push({ text: block.text });
+      }
+    } else if (block?.type === 'image' || block?.type === 'document') {
+      const part = mediaToPart(block);
+      if (part) {
+        parts.push(part);
+      }
+    } else if (block?.type === 'tool_use') {
+      toolNames.set(block.id, block.name);
+      const thoughtSignature = decodeThoughtSignature(block.id);
+      parts.push({
+        functionCall: { name: block.name, args: block.input ?? {} },
+        ...(thoughtSignature ? { thoughtSignature } : {})
+      });
+    } else if (block?.type === 'tool_result') {
+      parts.push({
+        functionResponse: {
+          name: toolNames.get(block.tool_use_id) || block.tool_use_id,
+          response: toolResultToResponse(block)
+        }
+      });
+    }
+  }
+  return parts;
+}
+
+function convertToolConfig(toolChoice: any): any {
+  switch (toolChoice?.type) {
+    case 'auto': return { functionCallingConfig: { mode: 'AUTO' } };
+    case 'any': return { functionCallingConfig: { mode: 'ANY' } };
+    case 'none': return { functionCallingConfig: { mode: 'NONE' } };
+    case 'tool': return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.name] } };
+    default: return undefined;
+  }
+}
+
+/**
+ * Anthropic /v1/messages 请求体 -> Gemini generateContent 请求体
+ * 模型名在URL中,不放入请求体
+ * includeThoughts: 请求返回思考摘要 (用于转换为thinking块)
+ */
+export function anthropicToGeminiRequest(body: any, includeThoughts = false): any {
+  const contents: any[] = [];
+  const toolNames = new Map<string, string>();
+
+  for (const message of body.messages || []) {
+    const parts = convertParts(message, toolNames);
+    if (parts.length === 0) {
+      continue;
+    }
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    // Gemini要求user/model交替,相邻同角色消息合并
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  const result: any = { contents };
+
+  const systemText = systemToText(body.system);
+  if (systemText) {
+    result.systemInstruction = { parts: [{ text: systemText }] };
+  }
+
+  const generationConfig: any = {};
+  if (body.max_tokens !== undefined) {
+    generationConfig.maxOutputTokens = body.max_tokens;
+  }
+  if (body.temperature !== undefined) {
+    generationConfig.temperature = body.temperature;
+  }
+  if (body.top_p !== undefined) {
+    generationConfig.topP = body.top_p;
+  }
+  if (body.top_k !== undefined) {
+    generationConfig.topK = body.top_k;
+  }
+  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
+    generationConfig.stopSequences = body.stop_sequences;
+  }
+  if (includeThoughts) {
+    generationConfig.thinkingConfig = { includeThoughts: true };
+    if (body.thinking?.type === 'enabled' && body.thinking.budget_tokens) {
+      generationConfig.thinkingConfig.thinkingBudget = body.thinking.budget_tokens;
+    }
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    result.generationConfig = generationConfig;
+  }
+
+  // 只转换自定义工具,Anthropic服务端工具(web_search等)没有对应物
+  const tools = (body.tools || []).filter((tool: any) => tool.input_schema);
+  if (tools.length > 0) {
+    result.tools = [{
+      functionDeclarations: tools.map((tool: any) => ({
+        name: tool.name,
+        description: tool.description || '',
+        parameters: cleanSchema(tool.input_schema)
+      }))
+    }];
+
+    const toolConfig = convertToolConfig(body.tool_choice);
+    if (toolConfig) {
+      result.toolConfig = toolConfig;
+    }
+  }
+
+  return result;
+}
+
+// Gemini finishReason -> Anthropic stop_reason
+function convertFinishReason(reason: string | null | undefined, hasToolUse: boolean): string {
+  if (hasToolUse) {
+    return 'tool_use';
+  }
+  if (reason === 'MAX_TOKENS') {
+    return 'max_tokens';
+  }
+  return 'end_turn';
+}
+
+// Gemini usageMetadata -> Anthropic usage
+function convertUsage(usage: any): any {
+  const cached = usage?.cachedContentTokenCount || 0;
+  const result: any = {
+    input_tokens: (usage?.promptTokenCount || 0) - cached,
+    output_tokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0)
+  };
+  if (cached > 0) {
+    result.cache_read_input_tokens = cached;
+  }
+  return result;
+}
+
+function messageId(id: string | undefined): string {
+  return id ? `msg_${id}` : randomId('msg');
+}
+
+/**
+ * Gemini 非流式响应 -> Anthropic message
+ * thought部分(思考摘要)在reasoning为true时转换为thinking块,否则不计入content
+ */
+export function geminiToAnthropicResponse(body: any, requestModel: string, reasoning = false): any {
+  const candidate = body.candidates?.[0];
+  const content: any[] = [];
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.thought) {
+      if (reasoning && typeof part.text === 'string' && part.text !== '') {
+        const last = content[content.length - 1];
+        if (last && last.type === 'thinking') {
+          last.thinking += part.text;
+        } else {
+          content.push({ type: 'thinking', thinking: part.text, signature: '' });
+        }
+      }
+      continue;
+    }
+    if (typeof part.text === 'string' && part.text !== '') {
+      const last = content[content.length - 1];
+      if (last && last.type === 'text') {
+        last.text += part.text;
+      } else {
+        content.push({ type: 'text', text: part.text });
+      }
+    } else if (part.functionCall) {
+      content.push({
+        type: 'tool_use',
+        id: encodeToolUseId(part),
+        name: part.functionCall.name,
+        input: part.functionCall.args ?? {}
+      });
+    }
+  }
+
+  const hasToolUse = content.some(block => block.type === 'tool_use');
+
+  return {
+    id: messageId(body.responseId),
+    type: 'message',
+    role: 'assistant',
+    model: body.modelVersion || requestModel,
+    content,
+    stop_reason: convertFinishReason(candidate?.finishReason, hasToolUse),
+    stop_sequence: null,
+    usage: convertUsage(body.usageMetadata)
+  };
+}
+
+/**
+ * Gemini SSE流 (streamGenerateContent?alt=sse) -> Anthropic SSE流
+ * 文本按增量输出,functionCall在Gemini中一次性给出完整参数
+ */
+export class GeminiStreamTranslator implements StreamTranslator {
+  private buffer = '';
+  // 多字节字符可能被切分在两个chunk之间,需要流式解码
+  private readonly decoder = new TextDecoder();
+  private readonly writer = new AnthropicStreamWriter();
+  private hasToolUse = false;
+  private finishReason: string | null = null;
+  private usage: any = null;
+
+  // reasoning: 是否将thought部分转换为thinking块
+  constructor(private readonly requestModel: string, private readonly reasoning = false) {}
+
+  // 输入上游原始数据,返回需要发给客户端的Anthropic SSE文本
+  push(chunk: Uint8Array | string): string {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    let output = '';
+    for (const line of lines) {
+      output += this.handleLine(line.trim());
+    }
+    return output;
+  }
+
+  // 上游流结束,补齐结束事件
+  end(): string {
+    this.buffer += this.decoder.decode();
+    let output = '';
+    if (this.buffer.trim()) {
+      output += this.handleLine(this.buffer.trim());
+      this.buffer = '';
+    }
+    return output + this.finish();
+  }
+
+  private handleLine(line: string): string {
+    if (!line.startsWith('data:') || this.writer.finished) {
+      return '';
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line.substring(5).trim());
+    } catch (e) {
+      return '';
+    }
+
+    if (parsed.error) {
+      return this.writer.error(anthropicError(parsed.error.code || 500, parsed.error.message || JSON.stringify(parsed.error)));
+    }
+
+    return this.handleChunk(parsed);
+  }
+
+  private handleChunk(chunk: any): string {
+    let output = this.writer.start(messageId(chunk.responseId), chunk.modelVersion || this.requestModel);
+
+    if (chunk.usageMetadata) {
+      this.usage = chunk.usageMetadata;
+    }
+
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) {
+      return output;
+    }
+
+    for (const part of candidate.content?.parts || []) {
+      if (part.thought) {
+        if (this.reasoning && typeof part.text === 'string' && part.text !== '') {
+          output += this.writer.delta('thinking', part.text);
+        }
+        continue;
+      }
+      if (typeof part.text === 'string' && part.text !== '') {
+        output += this.writer.delta('text', part.text);
+      } else if (part.functionCall) {
+        output += this.writer.toolUse(encodeToolUseId(part), part.functionCall.name, JSON.stringify(part.functionCall.args ?? {}));
+        this.hasToolUse = true;
+      }
+    }
+
+    if (candidate.finishReason) {
+      this.finishReason = candidate.finishReason;
+    }
+
+    return output;
+  }
+
+  private finish(): string {
+    if (this.writer.finished) {
+      return '';
+    }
+    return this.writer.start(messageId(undefined), this.requestModel) +
+      this.writer.finish(convertFinishReason(this.finishReason, this.hasToolUse), convertUsage(this.usage));
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * API密钥池: 轮换选择密钥,429/401时按retry-after冷却
+ */
+
+export type KeyStrategy = 'round-robin' | 'least-recently-used';
+
+interface KeyState {
+  uses: number;
+  lastUsed: number;
+  cooldownUntil: number;
+  lastStatus?: number;
+}
+
+export interface KeyHealth {
+  provider: string;
+  key: string;  // 已脱敏
+  uses: number;
+  lastUsed: number;
+  cooldownRemaining: number;  // 秒, 0表示可用
+  lastStatus?: number;
+}
+
+// provider -> (key -> 状态)
+const keyStates = new Map<string, Map<string, KeyState>>();
+// provider -> 轮询位置
+const roundRobinIndex = new Map<string, number>();
+
+function getState(provider: string, key: string): KeyState {
+  let states = keyStates.get(provider);
+  if (!states) {
+    states = new Map();
+    keyStates.set(provider, states);
+  }
+  let state = states.get(key);
+  if (!state) {
+    state = { uses: 0, lastUsed: 0, cooldownUntil: 0 };
+    states.set(key, state);
+  }
+  return state;
+}
+
+// 密钥脱敏,只保留首尾几位
+export function maskKey(key: string): string {
+  if (key.length <= 10) {
+    return '*'.repeat(key.length);
+  }
+  return `${key.substring(0, 6)}…${key.substring(key.length - 4)}`;
+}
+
+// 解析retry-after头 (秒数或HTTP日期),返回毫秒
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+// 是否有未在冷却、且不在exclude中的密钥
+export function hasAvailableKey(provider: string, keys: string[], exclude: string[] = []): boolean {
+  const now = Date.now();
+  return keys.some(key => !exclude.includes(key) && getState(provider, key).cooldownUntil <= now);
+}
+
+/**
+ * 从密钥池中选择一个密钥
+ * 优先选择未冷却的密钥;全部冷却时选择最早结束冷却的密钥
+ */
+export function pickApiKey(provider: string, keys: string[], strategy: KeyStrategy, exclude: string[] = []): string | undefined {
+  if (keys.length === 0) {
+    return undefined;
+  }
+  if (keys.length === 1) {
+    const state = getState(provider, keys[0]);
+    state.uses++;
+    state.lastUsed = Date.now();
+    return keys[0];
+  }
+
+  const now = Date.now();
+  let candidates = keys.filter(key => !exclude.includes(key) && getState(provider, key).cooldownUntil <= now);
+  if (candidates.length === 0) {
+    candidates = [...keys].sort((a, b) => getState(provider, a).cooldownUntil - getState(provider, b).cooldownUntil).slice(0, 1);
+  }
+
+  let selected: string;
+  if (strategy === 'least-recently-used') {
+    selected = candidates.reduce((best, key) =>
+      getState(provider, key).lastUsed < getState(provider, best).lastUsed ? key : best);
+  } else {
+    // 轮询: 从上次位置之后找第一个候选密钥
+    const start = roundRobinIndex.get(provider) ?? -1;
+    selected = candidates[0];
+    for (let offset = 1; offset <= keys.length; offset++) {
+      const key = keys[(start + offset) % keys.length];
+      if (candidates.includes(key)) {
+        selected = key;
+        break;
+      }
+    }
+    roundRobinIndex.set(provider, keys.indexOf(selected));
+  }
+
+  const state = getState(provider, selected);
+  state.uses++;
+  state.lastUsed = now;
+  return selected;
+}
+
+/**
+ * 记录密钥的请求结果
+ * 429/401时进入冷却,返回是否被冷却
+ */
+export function reportKeyResult(
+  provider: string,
+  key: string,
+  status: number,
+  retryAfter: string | null | undefined,
+  defaultCooldownSeconds: number
+): boolean {
+  const state = getState(provider, key);
+  state.lastStatus = status;
+
+  if (status !== 429 && status !== 401) {
+    return false;
+  }
+
+  const cooldown = parseRetryAfter(retryAfter) ?? defaultCooldownSeconds * 1000;
+  state.cooldownUntil = Date.now() + cooldown;
+  console.warn(`[${provider}] 密钥 ${maskKey(key)} 返回 ${status},冷却 ${Math.round(cooldown / 1000)}s`);
+  return true;
+}
+
+// 获取密钥健康状态
+export function getKeyHealth(provider: string, keys: string[]): KeyHealth[] {
+  const now = Date.now();
+  return keys.map(key => {
+    const state = getState(provider, key);
+    return {
+      provider,
+      key: maskKey(key),
+      uses: state.uses,
+      lastUsed: state.lastUsed,
+      cooldownRemaining: Math.max(0, Math.ceil((state.cooldownUntil - now) / 1000)),
+      lastStatus: state.lastStatus
+    };
+  });
+}
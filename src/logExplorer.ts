@@ -0,0 +1,394 @@
+/**
+ * 请求日志浏览器 (Webview)
+ * 列表显示最近的请求,点击查看组装后的完整响应 (流式响应由SSE事件重建)
+ */
+
+import * as vscode from 'vscode';
+import { assembleStreamMessage } from './anthropic';
+import { LogRef, readLogEntries, readLogEntry } from './logs';
+import { pickReplayTarget, replayRequest, showReplayDiff } from './replay';
+import { getNonce } from './webview';
+
+// 列表最多显示的日志条数
+const MAX_ENTRIES = 500;
+
+// 详情中原始JSON的最大长度
+const MAX_RAW_LENGTH = 200000;
+
+interface LogSummary {
+  index: number;
+  timestamp: string;
+  model: string;
+  mapping: string;
+  provider: string;
+  status: number | null;
+  durationMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  path: string;
+  searchText: string;
+}
+
+let panel: vscode.WebviewPanel | null = null;
+
+// 当前列表中各条目的位置,详情按索引读取
+let entryRefs: LogRef[] = [];
+
+// 取得日志中的最终响应消息 (流式响应重建为完整消息)
+export function getFinalMessage(log: any): any | null {
+  const body = log?.response?.body;
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+  if (body.isStreaming && Array.isArray(body.chunks)) {
+    return assembleStreamMessage(body.chunks);
+  }
+  return body;
+}
+
+// 消息的文本内容
+function messageText(message: any): string {
+  if (!Array.isArray(message?.content)) {
+    return typeof message?.content === 'string' ? message.content : '';
+  }
+  return message.content
+    .map((block: any) => block?.text || block?.thinking || (block?.type === 'tool_use' ? `${block.name} ${JSON.stringify(block.input)}` : ''))
+    .join('\n');
+}
+
+function summarize(log: any, index: number): LogSummary {
+  const request = log?.request || {};
+  const mapping = request.mapping;
+  const message = getFinalMessage(log);
+  const usage = message?.usage;
+  const lastUser = [...(request.body?.messages || [])].reverse().find((m: any) => m?.role === 'user');
+  const pathname = new URL(request.url || '/', 'http://127.0.0.1').pathname;
+
+  const summary: LogSummary = {
+    index,
+    timestamp: log?.timestamp || '',
+    model: mapping?.originalModel || request.body?.model || '',
+    mapping: mapping?.target || 'pass',
+    provider: mapping?.provider || 'pass',
+    status: log?.response?.status ?? null,
+    durationMs: log?.response?.durationMs ?? null,
+    inputTokens: typeof usage?.input_tokens === 'number' ? usage.input_tokens : null,
+    outputTokens: typeof usage?.output_tokens === 'number' ? usage.output_tokens : null,
+    path: pathname,
+    searchText: ''
+  };
+
+  // 文本过滤时匹配的内容 (截断以控制消息大小)
+  summary.searchText = [
+    summary.model,
+    summary.mapping,
+    summary.path,
+    mapping?.rule || '',
+    typeof log?.error === 'string' ? log.error : '',
+    messageText(lastUser).substring(0, 2000),
+    messageText(message).substring(0, 2000)
+  ].join('\n').toLowerCase();
+
+  return summary;
+}
+
+// 详情: 请求概要 + 组装后的响应 + 原始JSON
+function buildDetail(log: any): any {
+  const message = getFinalMessage(log);
+  const content = Array.isArray(message?.content) ? message.content : [];
+  let raw = JSON.stringify(log, null, 2);
+  if (raw.length > MAX_RAW_LENGTH) {
+    raw = raw.substring(0, MAX_RAW_LENGTH) + '\n... (已截断)';
+  }
+
+  return {
+    id: log?.id,
+    timestamp: log?.timestamp,
+    url: log?.request?.url,
+    mapping: log?.request?.mapping || null,
+    status: log?.response?.status ?? null,
+    durationMs: log?.response?.durationMs ?? null,
+    error: log?.error || message?.error || null,
+    stopReason: message?.stop_reason || null,
+    usage: message?.usage || null,
+    blocks: content.map((block: any) => {
+      if (block?.type === 'thinking') {
+        return { type: 'thinking', text: block.thinking || '' };
+      }
+      if (block?.type === 'tool_use') {
+        return { type: 'tool_use', name: block.name, text: JSON.stringify(block.input, null, 2) };
+      }
+      if (block?.type === 'text') {
+        return { type: 'text', text: block.text || '' };
+      }
+      return { type: block?.type || 'unknown', text: JSON.stringify(block, null, 2) };
+    }),
+    raw
+  };
+}
+
+function postEntries(allWorkspaces: boolean): void {
+  if (!panel) {
+    return;
+  }
+  const entries = readLogEntries(MAX_ENTRIES, allWorkspaces);
+  entryRefs = entries.map(entry => entry.ref);
+  panel.webview.postMessage({
+    type: 'entries',
+    entries: entries.map((entry, index) => summarize(entry.log, index))
+  });
+}
+
+/**
+ * 打开日志浏览器 (已打开时切换到前台并刷新)
+ */
+export function openLogExplorer(context: vscode.ExtensionContext): void {
+  if (panel) {
+    panel.reveal();
+    panel.webview.postMessage({ type: 'reload' });
+    return;
+  }
+
+  panel = vscode.window.createWebviewPanel(
+    'claudeProxyLogExplorer',
+    'Claude Proxy 请求日志',
+    vscode.ViewColumn.Active,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+  panel.webview.html = getHtml();
+
+  panel.webview.onDidReceiveMessage(message => {
+    if (message?.type === 'refresh') {
+      postEntries(!!message.allWorkspaces);
+    } else if (message?.type === 'replay') {
+      vscode.commands.executeCommand('claudeProxy.replayLogEntry', { index: message.index });
+    } else if (message?.type === 'detail') {
+      const ref = entryRefs[message.index];
+      const log = ref ? readLogEntry(ref) : null;
+      panel?.webview.postMessage({
+        type: 'detail',
+        index: message.index,
+        detail: log ? buildDetail(log) : null
+      });
+    }
+  }, undefined, context.subscriptions);
+
+  panel.onDidDispose(() => {
+    panel = null;
+    entryRefs = [];
+  }, undefined, context.subscriptions);
+}
+
+/**
+ * 将列表中的一条请求重放到另一个目标,并与原响应做diff
+ */
+export async function replayLogEntry(index: number, port: number): Promise<void> {
+  const ref = entryRefs[index];
+  const log = ref ? readLogEntry(ref) : null;
+  if (!log) {
+    vscode.window.showErrorMessage('无法读取日志 (可能已被清理)');
+    return;
+  }
+
+  const originalTarget: string = log.request?.mapping?.target || 'pass';
+  const target = (await pickReplayTarget(originalTarget))?.trim();
+  if (!target) {
+    return;
+  }
+
+  try {
+    const replayed = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `正在重放到 ${target}...` },
+      () => replayRequest(log, target, port)
+    );
+    await showReplayDiff(getFinalMessage(log), originalTarget, replayed, target);
+  } catch (e: any) {
+    vscode.window.showErrorMessage(`重放失败: ${e.message}`);
+  }
+}
+
+function getHtml(): string {
+  const nonce = getNonce();
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 12px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; padding: 8px 0; position: sticky; top: 0; background: var(--vscode-editor-background); }
+  input, select, button { font: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+  button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+  #text { flex: 1; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--vscode-panel-border); white-space: nowrap; }
+  tbody tr { cursor: pointer; }
+  tbody tr:hover, tbody tr.selected { background: var(--vscode-list-hoverBackground); }
+  .error { color: var(--vscode-errorForeground); }
+  .num { text-align: right; }
+  #detail { margin-top: 12px; }
+  .block { margin: 8px 0; padding: 6px 8px; border-left: 3px solid var(--vscode-textLink-foreground); background: var(--vscode-textCodeBlock-background); }
+  .block.thinking { border-color: var(--vscode-descriptionForeground); opacity: 0.85; }
+  .block.tool_use { border-color: var(--vscode-charts-orange); }
+  .label { font-weight: bold; margin-bottom: 4px; }
+  pre { white-space: pre-wrap; word-break: break-all; margin: 0; font-family: var(--vscode-editor-font-family); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <select id="provider"><option value="">全部Provider</option></select>
+  <select id="status">
+    <option value="">全部状态</option>
+    <option value="2">2xx</option>
+    <option value="4">4xx</option>
+    <option value="5">5xx</option>
+    <option value="error">错误</option>
+  </select>
+  <input id="text" placeholder="过滤模型、映射、路径或内容">
+  <label><input type="checkbox" id="all"> 所有工作区</label>
+  <button id="refresh">刷新</button>
+  <span id="count"></span>
+</div>
+<table>
+  <thead><tr><th>时间</th><th>模型</th><th>映射</th><th>状态</th><th class="num">耗时</th><th class="num">输入</th><th class="num">输出</th><th>路径</th></tr></thead>
+  <tbody id="rows"></tbody>
+</table>
+<div id="detail"></div>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  let entries = [];
+  let selected = -1;
+
+  const $ = id => document.getElementById(id);
+
+  function el(tag, attrs, text) {
+    const node = document.createElement(tag);
+    Object.assign(node, attrs || {});
+    if (text !== undefined && text !== null) {
+      node.textContent = String(text);
+    }
+    return node;
+  }
+
+  function matches(entry) {
+    const provider = $('provider').value;
+    const status = $('status').value;
+    const text = $('text').value.trim().toLowerCase();
+    if (provider && entry.provider !== provider) return false;
+    if (status === 'error' && entry.status !== null && entry.status < 400) return false;
+    if (status && status !== 'error' && String(entry.status || '').charAt(0) !== status) return false;
+    if (text && !entry.searchText.includes(text)) return false;
+    return true;
+  }
+
+  function render() {
+    const rows = $('rows');
+    rows.textContent = '';
+    const visible = entries.filter(matches);
+    for (const entry of visible) {
+      const tr = el('tr', { className: entry.index === selected ? 'selected' : '' });
+      // 右键菜单 (webview/context) 的参数
+      tr.dataset.vscodeContext = JSON.stringify({ webviewSection: 'logEntry', index: entry.index, preventDefaultContextMenuItems: true });
+      tr.appendChild(el('td', {}, new Date(entry.timestamp).toLocaleString()));
+      tr.appendChild(el('td', {}, entry.model));
+      tr.appendChild(el('td', {}, entry.mapping));
+      tr.appendChild(el('td', { className: entry.status === null || entry.status >= 400 ? 'error' : '' }, entry.status === null ? '错误' : entry.status));
+      tr.appendChild(el('td', { className: 'num' }, entry.durationMs === null ? '-' : entry.durationMs + 'ms'));
+      tr.appendChild(el('td', { className: 'num' }, entry.inputTokens === null ? '-' : entry.inputTokens));
+      tr.appendChild(el('td', { className: 'num' }, entry.outputTokens === null ? '-' : entry.outputTokens));
+      tr.appendChild(el('td', {}, entry.path));
+      tr.addEventListener('click', () => {
+        selected = entry.index;
+        render();
+        vscode.postMessage({ type: 'detail', index: entry.index });
+      });
+      rows.appendChild(tr);
+    }
+    $('count').textContent = visible.length + ' / ' + entries.length;
+  }
+
+  function renderDetail(detail) {
+    const container = $('detail');
+    container.textContent = '';
+    if (!detail) {
+      container.appendChild(el('div', { className: 'error' }, '无法读取日志 (可能已被清理)'));
+      return;
+    }
+    const mapping = detail.mapping;
+    const info = [
+      '时间: ' + detail.timestamp,
+      '请求: ' + detail.url,
+      '映射: ' + (mapping ? (mapping.originalModel || '') + ' → ' + (mapping.target || mapping.targetModel || '') + (mapping.rule ? ' (规则: ' + mapping.rule + ')' : '') : '透传'),
+      '状态: ' + (detail.status === null ? '错误' : detail.status) + (detail.durationMs !== null ? '  耗时: ' + detail.durationMs + 'ms' : ''),
+      '停止原因: ' + (detail.stopReason || '-'),
+      'Usage: ' + (detail.usage ? JSON.stringify(detail.usage) : '-')
+    ];
+    if (mapping && mapping.attempts && mapping.attempts.length > 0) {
+      info.push('失败的尝试: ' + mapping.attempts.map(a => a.target + ' (' + (a.status || a.error) + ')').join(', '));
+    }
+    if (mapping && mapping.vision) {
+      info.push('图片/文档: ' + mapping.vision);
+    }
+    if (mapping && mapping.streamNotes) {
+      info.push('流修复: ' + mapping.streamNotes.join('; '));
+    }
+    container.appendChild(el('pre', {}, info.join('\\n')));
+
+    const replay = el('button', {}, '重放到其他目标...');
+    replay.addEventListener('click', () => vscode.postMessage({ type: 'replay', index: selected }));
+    container.appendChild(replay);
+
+    if (detail.error) {
+      const block = el('div', { className: 'block error' });
+      block.appendChild(el('div', { className: 'label' }, '错误'));
+      block.appendChild(el('pre', {}, typeof detail.error === 'string' ? detail.error : JSON.stringify(detail.error, null, 2)));
+      container.appendChild(block);
+    }
+
+    for (const item of detail.blocks) {
+      const block = el('div', { className: 'block ' + item.type });
+      block.appendChild(el('div', { className: 'label' }, item.type === 'tool_use' ? 'tool_use: ' + item.name : item.type));
+      block.appendChild(el('pre', {}, item.text));
+      container.appendChild(block);
+    }
+
+    const raw = el('details');
+    raw.appendChild(el('summary', {}, '原始JSON'));
+    raw.appendChild(el('pre', {}, detail.raw));
+    container.appendChild(raw);
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.type === 'entries') {
+      entries = message.entries;
+      selected = -1;
+      $('detail').textContent = '';
+      const providerSelect = $('provider');
+      const current = providerSelect.value;
+      providerSelect.length = 1;
+      for (const provider of [...new Set(entries.map(entry => entry.provider))].sort()) {
+        providerSelect.appendChild(el('option', { value: provider }, provider));
+      }
+      providerSelect.value = current;
+      render();
+    } else if (message.type === 'detail' && message.index === selected) {
+      renderDetail(message.detail);
+    } else if (message.type === 'reload') {
+      refresh();
+    }
+  });
+
+  function refresh() {
+    vscode.postMessage({ type: 'refresh', allWorkspaces: $('all').checked });
+  }
+  $('provider').addEventListener('change', render);
+  $('status').addEventListener('change', render);
+  $('text').addEventListener('input', render);
+  $('all').addEventListener('change', refresh);
+  $('refresh').addEventListener('click', refresh);
+  refresh();
+</script>
+</body>
+</html>`;
+}
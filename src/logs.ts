@@ -0,0 +1,228 @@
+/**
+ * 请求日志文件管理: 目录、JSON/JSONL写入、保留策略、sidecar日志轮转
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+
+// 当前写入的JSONL文件名,超过大小后重命名为 requests-<时间>.jsonl
+const JSONL_CURRENT = 'requests.jsonl';
+
+// sidecar日志保留的轮转份数 (.log.1 ~ .log.N)
+const SIDECAR_ROTATIONS = 3;
+
+// 获取日志根目录路径
+export function getLogRoot(): string {
+  return path.join(os.homedir(), '.claude', 'proxy', 'log');
+}
+
+// 获取当前窗口的日志目录 (开启按工作区分目录时为 <工作区名>-<路径hash>)
+export function getLogDir(): string {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!config.get<boolean>('logging.perWorkspace', true) || !folder) {
+    return getLogRoot();
+  }
+  const hash = crypto.createHash('sha1').update(folder.uri.fsPath).digest('hex').substring(0, 8);
+  const name = folder.name.replace(/[^\w.-]/g, '_');
+  return path.join(getLogRoot(), `${name}-${hash}`);
+}
+
+// 确保日志目录存在
+export function ensureLogDir(): string {
+  const logDir = getLogDir();
+  if (!fs.existsSync(logDir)) {
+    fs.mkdirSync(logDir, { recursive: true });
+  }
+  return logDir;
+}
+
+/**
+ * 写入一条日志
+ * json: 每个请求一个格式化的文件; jsonl: 追加到按大小轮转的JSONL文件
+ * 返回写入的文件名
+ */
+export function writeLogEntry(log: any): string {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const logDir = ensureLogDir();
+
+  if (config.get<string>('logging.format', 'json') === 'jsonl') {
+    const filepath = path.join(logDir, JSONL_CURRENT);
+    const maxBytes = config.get<number>('logging.jsonlMaxFileSizeMB', 20) * 1024 * 1024;
+    try {
+      if (fs.existsSync(filepath) && fs.statSync(filepath).size >= maxBytes) {
+        const rotated = `requests-${new Date().toISOString().replace(/:/g, '-')}.jsonl`;
+        fs.renameSync(filepath, path.join(logDir, rotated));
+        console.log(`JSONL日志已轮转: ${rotated}`);
+      }
+    } catch (e) {
+      console.warn('轮转JSONL日志失败:', e);
+    }
+    fs.appendFileSync(filepath, JSON.stringify(log) + '\n', 'utf8');
+    return JSONL_CURRENT;
+  }
+
+  const filename = `${log.timestamp.replace(/:/g, '-')}-${log.id}.json`;
+  fs.writeFileSync(path.join(logDir, filename), JSON.stringify(log, null, 2), 'utf8');
+  return filename;
+}
+
+interface LogFile {
+  filepath: string;
+  size: number;
+  mtime: number;
+}
+
+// 递归收集日志根目录下的日志文件 (包括各工作区子目录)
+function collectLogFiles(dir: string): LogFile[] {
+  const files: LogFile[] = [];
+  if (!fs.existsSync(dir)) {
+    return files;
+  }
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const filepath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectLogFiles(filepath));
+    } else if (/\.jsonl?$/.test(entry.name)) {
+      try {
+        const stat = fs.statSync(filepath);
+        files.push({ filepath, size: stat.size, mtime: stat.mtimeMs });
+      } catch (e) {
+        // 文件可能已被其他窗口删除
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * 按保留策略清理日志: 超过最长保留天数、最大文件数、最大总大小时从最旧的开始删除
+ * 各项为0表示不限制
+ */
+export function applyLogRetention(): void {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const maxAgeDays = config.get<number>('logging.retention.maxAgeDays', 7);
+  const maxFiles = config.get<number>('logging.retention.maxFiles', 1000);
+  const maxTotalBytes = config.get<number>('logging.retention.maxTotalSizeMB', 200) * 1024 * 1024;
+
+  let files: LogFile[];
+  try {
+    // 从新到旧
+    files = collectLogFiles(getLogRoot()).sort((a, b) => b.mtime - a.mtime);
+  } catch (e) {
+    console.warn('读取日志目录失败:', e);
+    return;
+  }
+
+  const now = Date.now();
+  let totalBytes = 0;
+  let kept = 0;
+
+  for (const file of files) {
+    const expired = maxAgeDays > 0 && now - file.mtime > maxAgeDays * 24 * 60 * 60 * 1000;
+    const tooMany = maxFiles > 0 && kept >= maxFiles;
+    const tooLarge = maxTotalBytes > 0 && totalBytes + file.size > maxTotalBytes;
+    // 正在写入的JSONL文件不因数量/大小被删除
+    const isCurrent = path.basename(file.filepath) === JSONL_CURRENT;
+
+    if (expired || (!isCurrent && (tooMany || tooLarge))) {
+      try {
+        fs.unlinkSync(file.filepath);
+        console.log(`已删除日志文件: ${file.filepath}`);
+      } catch (e) {
+        console.warn(`删除日志文件失败: ${file.filepath}`, e);
+      }
+      continue;
+    }
+
+    kept++;
+    totalBytes += file.size;
+  }
+}
+
+/**
+ * sidecar日志超过大小时轮转 (复制到.log.1后截断)
+ * sidecar进程以追加模式写入,截断后继续写入不受影响
+ */
+export function rotateSidecarLog(logPath: string): void {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const maxBytes = config.get<number>('logging.sidecarMaxSizeMB', 10) * 1024 * 1024;
+
+  try {
+    if (!fs.existsSync(logPath) || fs.statSync(logPath).size < maxBytes) {
+      return;
+    }
+    for (let i = SIDECAR_ROTATIONS - 1; i >= 1; i--) {
+      const from = `${logPath}.${i}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${logPath}.${i + 1}`);
+      }
+    }
+    fs.copyFileSync(logPath, `${logPath}.1`);
+    fs.truncateSync(logPath, 0);
+    console.log(`已轮转日志文件: ${logPath}`);
+  } catch (e) {
+    console.warn(`轮转日志文件失败: ${logPath}`, e);
+  }
+}
+
+// 日志条目位置: json文件,或jsonl文件中的某一行
+export interface LogRef {
+  file: string;
+  line?: number;
+}
+
+/**
+ * 读取最近的日志条目 (新的在前)
+ * allWorkspaces为true时包括日志根目录下所有工作区子目录
+ */
+export function readLogEntries(limit: number, allWorkspaces: boolean): { ref: LogRef; log: any }[] {
+  let files: LogFile[];
+  try {
+    files = collectLogFiles(allWorkspaces ? getLogRoot() : getLogDir());
+  } catch (e) {
+    console.warn('读取日志目录失败:', e);
+    return [];
+  }
+
+  const entries: { ref: LogRef; log: any }[] = [];
+  for (const file of files.sort((a, b) => b.mtime - a.mtime)) {
+    if (entries.length >= limit) {
+      break;
+    }
+    try {
+      const content = fs.readFileSync(file.filepath, 'utf8');
+      if (file.filepath.endsWith('.jsonl')) {
+        const lines = content.split('\n');
+        for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+          if (lines[i].trim()) {
+            entries.push({ ref: { file: file.filepath, line: i }, log: JSON.parse(lines[i]) });
+          }
+        }
+      } else {
+        entries.push({ ref: { file: file.filepath }, log: JSON.parse(content) });
+      }
+    } catch (e) {
+      console.warn(`读取日志文件失败: ${file.filepath}`, e);
+    }
+  }
+
+  return entries.sort((a, b) => String(b.log?.timestamp).localeCompare(String(a.log?.timestamp)));
+}
+
+// 读取单条日志
+export function readLogEntry(ref: LogRef): any | null {
+  try {
+    const content = fs.readFileSync(ref.file, 'utf8');
+    if (ref.line === undefined) {
+      return JSON.parse(content);
+    }
+    return JSON.parse(content.split('\n')[ref.line]);
+  } catch (e) {
+    console.warn(`读取日志失败: ${ref.file}`, e);
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * /v1/models: 汇总已启用provider的模型 (设置中的models + 上游模型列表)
+ */
+
+import { ProviderDefinition, providerAuthHeaders } from './providers';
+
+// 上游模型列表的缓存时间和请求超时
+const UPSTREAM_CACHE_MS = 5 * 60 * 1000;
+const UPSTREAM_TIMEOUT_MS = 5000;
+
+// Anthropic格式的模型信息
+export interface ModelInfo {
+  type: 'model';
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+// provider -> 上游模型列表 (获取失败时为空数组,同样缓存)
+const upstreamCache = new Map<string, { models: ModelInfo[]; fetchedAt: number }>();
+
+const EPOCH = new Date(0).toISOString();
+
+function modelInfo(provider: string, id: string, createdAt?: string): ModelInfo {
+  return { type: 'model', id, display_name: `${provider}:${id}`, created_at: createdAt || EPOCH };
+}
+
+// 按provider格式请求上游模型列表
+async function fetchUpstreamModels(provider: ProviderDefinition): Promise<ModelInfo[]> {
+  const baseUrl = provider.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = provider.apiKeys.length > 0
+    ? { ...provider.headers, ...providerAuthHeaders(provider.authStyle, provider.apiKeys[0]) }
+    : { ...provider.headers };
+  if (provider.format === 'anthropic') {
+    headers['anthropic-version'] = '2023-06-01';
+  }
+
+  const url = provider.format === 'anthropic' ? `${baseUrl}/v1/models` : `${baseUrl}/models`;
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const body: any = await response.json();
+
+  if (provider.format === 'gemini') {
+    return (body.models || [])
+      .filter((model: any) => (model.supportedGenerationMethods || ['generateContent']).includes('generateContent'))
+      .map((model: any) => modelInfo(provider.id, String(model.name).replace(/^models\//, '')));
+  }
+  if (provider.format === 'openai') {
+    return (body.data || []).map((model: any) =>
+      modelInfo(provider.id, model.id, model.created ? new Date(model.created * 1000).toISOString() : undefined));
+  }
+  return (body.data || []).map((model: any) => modelInfo(provider.id, model.id, model.created_at));
+}
+
+async function getUpstreamModels(provider: ProviderDefinition): Promise<ModelInfo[]> {
+  const cached = upstreamCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < UPSTREAM_CACHE_MS) {
+    return cached.models;
+  }
+  let models: ModelInfo[] = [];
+  try {
+    models = await fetchUpstreamModels(provider);
+  } catch (e: any) {
+    console.log(`获取 ${provider.id} 的模型列表失败: ${e.message}`);
+  }
+  upstreamCache.set(provider.id, { models, fetchedAt: Date.now() });
+  return models;
+}
+
+/**
+ * 列出所有已启用provider的模型,设置中的models在前,上游列表补充其余模型
+ */
+export async function listModels(providers: ProviderDefinition[]): Promise<ModelInfo[]> {
+  const enabled = providers.filter(provider => provider.enabled);
+  const upstream = await Promise.all(enabled.map(provider => getUpstreamModels(provider)));
+
+  const models: ModelInfo[] = [];
+  const seen = new Set<string>();
+  enabled.forEach((provider, index) => {
+    const configured = provider.models.map(id => modelInfo(provider.id, id));
+    for (const model of [...configured, ...upstream[index]]) {
+      if (!seen.has(model.display_name)) {
+        seen.add(model.display_name);
+        models.push(model);
+      }
+    }
+  });
+  return models;
+}
+
+// Anthropic格式的模型列表响应
+export function modelListResponse(models: ModelInfo[]): any {
+  return {
+    data: models,
+    has_more: false,
+    first_id: models[0]?.id ?? null,
+    last_id: models[models.length - 1]?.id ?? null
+  };
+}
@@ -0,0 +1,417 @@
+/**
+ * Anthropic Messages <-> OpenAI Chat Completions 格式转换
+ */
+
+import { StreamTranslator, anthropicError, systemToText, randomId } from './anthropic';
+import { repairJson, AnthropicStreamWriter } from './sse';
+
+// Anthropic image block -> OpenAI image_url part
+function imageToPart(block: any): any | null {
+  const source = block?.source;
+  if (!source) {
+    return null;
+  }
+  if (source.type === 'base64') {
+    return { type: 'image_url', image_url: { url: `data:${source.media_type};base64,${source.data}` } };
+  }
+  if (source.type === 'url') {
+    return { type: 'image_url', image_url: { url: source.url } };
+  }
+  return null;
+}
+
+// tool_result的content可能是string或block数组,拆分出文本和图片
+function splitToolResult(content: any): { text: string; images: any[] } {
+  if (typeof content === 'string') {
+    return { text: content, images: [] };
+  }
+  const texts: string[] = [];
+  const images: any[] = [];
+  if (Array.isArray(content)) {
+    for (const block of content) {
+      if (block?.type === 'text') {
+        texts.push(block.text);
+      } else if (block?.type === 'image') {
+        const part = imageToPart(block);
+        if (part) {
+          images.push(part);
+        }
+      }
+    }
+  }
+  return { text: texts.join('\n'), images };
+}
+
+// 转换单条user消息,tool_result会拆成独立的tool消息并放在前面
+function convertUserMessage(message: any): any[] {
+  if (typeof message.content === 'string') {
+    return [{ role: 'user', content: message.content }];
+  }
+
+  const toolMessages: any[] = [];
+  const parts: any[] = [];
+
+  for (const block of message.content || []) {
+    if (block?.type === 'text') {
+      parts.push({ type: 'text', text: block.text });
+    } else if (block?.type === 'image') {
+      const part = imageToPart(block);
+      if (part) {
+        parts.push(part);
+      }
+    } else if (block?.type === 'document') {
+      // Chat Completions没有通用的文档类型,仅保留纯文本文档
+      if (block.source?.type === 'text') {
+        parts.push({ type: 'text', text: block.source.data });
+      } else {
+        parts.push({ type: 'text', text: '[document omitted]' });
+      }
+    } else if (block?.type === 'tool_result') {
+      const { text, images } = splitToolResult(block.content);
+      toolMessages.push({
+        role: 'tool',
+        tool_call_id: block.tool_use_id,
+        content: block.is_error ? `Error: ${text}` : text
+      });
+      // tool消息不支持图片,放到后续的user消息中
+      parts.push(...images);
+    }
+  }
+
+  const result = [...toolMessages];
+  if (parts.length > 0) {
+    const onlyText = parts.every(part => part.type === 'text');
+    result.push({
+      role: 'user',
+      content: onlyText ? parts.map(part => part.text).join('\n') : parts
+    });
+  }
+  return result;
+}
+
+// 转换单条assistant消息,thinking块不会发给上游
+function convertAssistantMessage(message: any): any {
+  if (typeof message.content === 'string') {
+    return { role: 'assistant', content: message.content };
+  }
+
+  const texts: string[] = [];
+  const toolCalls: any[] = [];
+
+  for (const block of message.content || []) {
+    if (block?.type === 'text') {
+      texts.push(block.text);
+    } else if (block?.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {})
+        }
+      });
+    }
+  }
+
+  const result: any = {
+    role: 'assistant',
+    content: texts.length > 0 ? texts.join('') : null
+  };
+  if (toolCalls.length > 0) {
+    result.tool_calls = toolCalls;
+  }
+  return result;
+}
+
+function convertToolChoice(toolChoice: any): any {
+  switch (toolChoice?.type) {
+    case 'auto': return 'auto';
+    case 'any': return 'required';
+    case 'none': return 'none';
+    case 'tool': return { type: 'function', function: { name: toolChoice.name } };
+    default: return undefined;
+  }
+}
+
+/**
+ * Anthropic /v1/messages 请求体 -> OpenAI /chat/completions 请求体
+ */
+export function anthropicToOpenAIRequest(body: any): any {
+  const messages: any[] = [];
+
+  const systemText = systemToText(body.system);
+  if (systemText) {
+    messages.push({ role: 'system', content: systemText });
+  }
+
+  for (const message of body.messages || []) {
+    if (message.role === 'assistant') {
+      messages.push(convertAssistantMessage(message));
+    } else {
+      messages.push(...convertUserMessage(message));
+    }
+  }
+
+  const result: any = {
+    model: body.model,
+    messages
+  };
+
+  if (body.max_tokens !== undefined) {
+    result.max_tokens = body.max_tokens;
+  }
+  if (body.temperature !== undefined) {
+    result.temperature = body.temperature;
+  }
+  if (body.top_p !== undefined) {
+    result.top_p = body.top_p;
+  }
+  if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
+    result.stop = body.stop_sequences;
+  }
+  if (body.metadata?.user_id) {
+    result.user = body.metadata.user_id;
+  }
+
+  // 只转换自定义工具,Anthropic服务端工具(web_search等)没有对应物
+  const tools = (body.tools || []).filter((tool: any) => tool.input_schema);
+  if (tools.length > 0) {
+    result.tools = tools.map((tool: any) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: tool.input_schema
+      }
+    }));
+
+    const toolChoice = convertToolChoice(body.tool_choice);
+    if (toolChoice !== undefined) {
+      result.tool_choice = toolChoice;
+    }
+    if (body.tool_choice?.disable_parallel_tool_use) {
+      result.parallel_tool_calls = false;
+    }
+  }
+
+  if (body.stream) {
+    result.stream = true;
+    result.stream_options = { include_usage: true };
+  }
+
+  return result;
+}
+
+// OpenAI finish_reason -> Anthropic stop_reason
+function convertFinishReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case 'length': return 'max_tokens';
+    case 'tool_calls':
+    case 'function_call': return 'tool_use';
+    default: return 'end_turn';
+  }
+}
+
+// OpenAI usage -> Anthropic usage
+function convertUsage(usage: any): any {
+  const cached = usage?.prompt_tokens_details?.cached_tokens || 0;
+  const result: any = {
+    input_tokens: (usage?.prompt_tokens || 0) - cached,
+    output_tokens: usage?.completion_tokens || 0
+  };
+  if (cached > 0) {
+    result.cache_read_input_tokens = cached;
+  }
+  return result;
+}
+
+/**
+ * 解析工具参数,无效JSON时尝试修复,修复记录到notes
+ * 只有输出被截断 (finish_reason为length) 时才补全JSON,否则只去掉前后的多余内容; 无法修复时为{}并记录为错误
+ */
+function parseToolArguments(args: string | undefined, name: string, truncated: boolean, notes: string[]): any {
+  if (!args) {
+    return {};
+  }
+  try {
+    return JSON.parse(args);
+  } catch (e) {
+    const repaired = repairJson(args, truncated);
+    if (repaired === null) {
+      console.error(`tool_use ${name}: invalid input JSON replaced with {}`);
+      notes.push(`error: tool_use ${name}: invalid input JSON replaced with {}`);
+      return {};
+    }
+    notes.push(truncated ? `tool_use ${name}: completed truncated input JSON` : `tool_use ${name}: removed extra text around input JSON`);
+    return JSON.parse(repaired);
+  }
+}
+
+function messageId(id: string | undefined): string {
+  return id ? `msg_${id.replace(/^chatcmpl-/, '')}` : randomId('msg');
+}
+
+// 推理内容: DeepSeek/Kimi等使用reasoning_content,OpenRouter/vLLM使用reasoning
+function reasoningText(message: any): string | undefined {
+  const text = message?.reasoning_content ?? message?.reasoning;
+  return typeof text === 'string' && text !== '' ? text : undefined;
+}
+
+/**
+ * OpenAI 非流式响应 -> Anthropic message
+ * reasoning: 是否将推理内容转换为thinking块; notes: 收集工具参数JSON的修复记录
+ */
+export function openAIToAnthropicResponse(body: any, requestModel: string, reasoning = false, notes: string[] = []): any {
+  const choice = body.choices?.[0];
+  const message = choice?.message || {};
+  const content: any[] = [];
+
+  const thinking = reasoning ? reasoningText(message) : undefined;
+  if (thinking) {
+    content.push({ type: 'thinking', thinking, signature: '' });
+  }
+  if (typeof message.content === 'string' && message.content !== '') {
+    content.push({ type: 'text', text: message.content });
+  }
+  for (const toolCall of message.tool_calls || []) {
+    content.push({
+      type: 'tool_use',
+      id: toolCall.id,
+      name: toolCall.function?.name,
+      input: parseToolArguments(toolCall.function?.arguments, toolCall.function?.name, choice?.finish_reason === 'length', notes)
+    });
+  }
+
+  return {
+    id: messageId(body.id),
+    type: 'message',
+    role: 'assistant',
+    model: body.model || requestModel,
+    content,
+    stop_reason: convertFinishReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: convertUsage(body.usage)
+  };
+}
+
+/**
+ * OpenAI SSE流 -> Anthropic SSE流
+ * 按行缓冲,网络chunk可以在任意位置切分
+ */
+export class OpenAIStreamTranslator implements StreamTranslator {
+  private buffer = '';
+  // 多字节字符可能被切分在两个chunk之间,需要流式解码
+  private readonly decoder = new TextDecoder();
+  private readonly writer = new AnthropicStreamWriter();
+  // OpenAI tool_calls[].index -> 缓冲的工具调用
+  // 并行工具调用的参数可能交错到达,全部缓冲后在结束时按index顺序各输出一个完整的tool_use块
+  private toolCalls = new Map<number, { id: string; name: string; args: string }>();
+  private finishReason: string | null = null;
+  private usage: any = null;
+
+  // reasoning: 是否将推理内容转换为thinking块
+  constructor(private readonly requestModel: string, private readonly reasoning = false) {}
+
+  // 输入上游原始数据,返回需要发给客户端的Anthropic SSE文本
+  push(chunk: Uint8Array | string): string {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    let output = '';
+    for (const line of lines) {
+      output += this.handleLine(line.trim());
+    }
+    return output;
+  }
+
+  // 上游流结束,补齐结束事件
+  end(): string {
+    this.buffer += this.decoder.decode();
+    let output = '';
+    if (this.buffer.trim()) {
+      output += this.handleLine(this.buffer.trim());
+      this.buffer = '';
+    }
+    return output + this.finish();
+  }
+
+  private handleLine(line: string): string {
+    if (!line.startsWith('data:') || this.writer.finished) {
+      return '';
+    }
+    const data = line.substring(5).trim();
+    if (data === '[DONE]') {
+      return this.finish();
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(data);
+    } catch (e) {
+      return '';
+    }
+
+    if (parsed.error) {
+      return this.writer.error(anthropicError(500, parsed.error.message || JSON.stringify(parsed.error)));
+    }
+
+    return this.handleChunk(parsed);
+  }
+
+  private handleChunk(chunk: any): string {
+    let output = this.writer.start(messageId(chunk.id), chunk.model || this.requestModel);
+
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return output;
+    }
+
+    const delta = choice.delta || {};
+
+    const thinking = this.reasoning ? reasoningText(delta) : undefined;
+    if (thinking) {
+      output += this.writer.delta('thinking', thinking);
+    }
+
+    if (typeof delta.content === 'string' && delta.content !== '') {
+      output += this.writer.delta('text', delta.content);
+    }
+
+    for (const toolCall of delta.tool_calls || []) {
+      const toolIndex = toolCall.index ?? 0;
+      let buffered = this.toolCalls.get(toolIndex);
+      if (!buffered) {
+        buffered = { id: toolCall.id || randomId('toolu'), name: '', args: '' };
+        this.toolCalls.set(toolIndex, buffered);
+      }
+      // 部分后端在每个分块中重复name,只取第一次
+      buffered.name = buffered.name || toolCall.function?.name || '';
+      buffered.args += toolCall.function?.arguments || '';
+    }
+
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    return output;
+  }
+
+  private finish(): string {
+    if (this.writer.finished) {
+      return '';
+    }
+    let output = this.writer.start(messageId(undefined), this.requestModel);
+    const indices = Array.from(this.toolCalls.keys()).sort((a, b) => a - b);
+    for (const toolIndex of indices) {
+      const toolCall = this.toolCalls.get(toolIndex)!;
+      output += this.writer.toolUse(toolCall.id, toolCall.name, toolCall.args);
+    }
+    this.toolCalls.clear();
+    return output + this.writer.finish(convertFinishReason(this.finishReason), convertUsage(this.usage));
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Provider注册表
+ * 内置Provider来自 providers.<id>.* 设置,自定义Provider来自 providers.registry 数组
+ */
+
+import * as vscode from 'vscode';
+import { getSecretKeys } from './secrets';
+import { CapabilityProfile, THIRD_PARTY_CAPABILITIES } from './capabilities';
+import { ReasoningMode } from './reasoning';
+import { TimeoutSettings } from './timeouts';
+import { RetryPolicy } from './retry';
+
+// 上游API格式: anthropic原生转发,其余需要转换
+export type TargetFormat = 'anthropic' | 'openai' | 'gemini';
+
+// count_tokens的处理方式: 转发、本地估算、转发失败时本地估算
+export type CountTokensMode = 'forward' | 'emulate' | 'forward-fallback';
+
+// 认证方式
+export type AuthStyle = 'x-api-key' | 'bearer' | 'x-goog-api-key';
+
+export interface ProviderDefinition {
+  id: string;
+  enabled: boolean;
+  baseUrl: string;
+  authStyle: AuthStyle;
+  apiKeys: string[];
+  headers: Record<string, string>;
+  models: string[];
+  format: TargetFormat;
+  countTokens: CountTokensMode;
+  capabilities: CapabilityProfile;
+  streamTransforms: string[];  // Anthropic格式流式响应的转换 (见 sse.ts)
+  reasoning: ReasoningMode;  // 推理内容的处理方式 (见 reasoning.ts)
+  timeouts: TimeoutSettings;  // 覆盖全局超时设置的项
+  retry: RetryPolicy;  // 覆盖全局重试策略的项
+  maxConcurrency: number;  // 同时进行的上游请求数上限, 0为不限制
+}
+
+// providers.registry 中的一项 (除id外均可省略,省略的字段取自preset)
+interface RegistryEntry {
+  id: string;
+  preset?: string;
+  enabled?: boolean;
+  baseUrl?: string;
+  authStyle?: AuthStyle;
+  apiKey?: string;
+  apiKeys?: string[];
+  headers?: Record<string, string>;
+  models?: string[];
+  format?: TargetFormat;
+  countTokens?: CountTokensMode;
+  capabilities?: CapabilityProfile;
+  streamTransforms?: string[];
+  reasoning?: ReasoningMode;
+  timeouts?: TimeoutSettings;
+  retry?: RetryPolicy;
+  maxConcurrency?: number;
+}
+
+interface ProviderPreset {
+  baseUrl: string;
+  authStyle: AuthStyle;
+  format: TargetFormat;
+}
+
+// 固定地址的内置Provider预设
+export const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+  anthropic: { baseUrl: 'https://api.anthropic.com', authStyle: 'x-api-key', format: 'anthropic' },
+  glm: { baseUrl: 'https://open.bigmodel.cn/api/anthropic', authStyle: 'x-api-key', format: 'anthropic' },
+  kimi: { baseUrl: 'https://api.moonshot.cn/anthropic', authStyle: 'x-api-key', format: 'anthropic' },
+  minimax: { baseUrl: 'https://api.minimaxi.com/anthropic', authStyle: 'x-api-key', format: 'anthropic' },
+  deepseek: { baseUrl: 'https://api.deepseek.com/anthropic', authStyle: 'x-api-key', format: 'anthropic' },
+  gemini: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta', authStyle: 'x-goog-api-key', format: 'gemini' }
+};
+
+// 按认证方式构造认证请求头
+export function providerAuthHeaders(authStyle: AuthStyle, apiKey: string): Record<string, string> {
+  if (authStyle === 'bearer') {
+    return { authorization: `Bearer ${apiKey}` };
+  }
+  return { [authStyle]: apiKey };
+}
+
+// 合并单个apiKey和密钥池,去空去重
+function collectKeys(apiKey: string | undefined, apiKeys: string[] | undefined): string[] {
+  const keys = [apiKey, ...(apiKeys || [])]
+    .map(key => (key || '').trim())
+    .filter(key => key.length > 0);
+  return Array.from(new Set(keys));
+}
+
+// 安全存储中有密钥时优先使用,否则使用设置中的明文密钥
+function preferSecretKeys(id: string, settingsKeys: string[]): string[] {
+  const secretKeys = getSecretKeys(id);
+  return secretKeys.length > 0 ? secretKeys : settingsKeys;
+}
+
+// count_tokens默认处理方式: Anthropic官方转发,其他Anthropic兼容接口转发失败时估算,转换格式的只能估算
+function defaultCountTokens(id: string, format: TargetFormat): CountTokensMode {
+  if (format !== 'anthropic') {
+    return 'emulate';
+  }
+  return id === 'anthropic' ? 'forward' : 'forward-fallback';
+}
+
+/**
+ * 能力配置默认值
+ * 固定地址的厂商接口和转换格式的provider不支持服务端工具和beta功能;
+ * custom/litellm/cliproxyapi等常常代理真实的Claude模型,默认不做删除
+ */
+function defaultCapabilities(id: string, format: TargetFormat): CapabilityProfile {
+  if (id === 'anthropic') {
+    return {};
+  }
+  return format !== 'anthropic' || id in PROVIDER_PRESETS ? THIRD_PARTY_CAPABILITIES : {};
+}
+
+// 流式响应转换默认配置: LiteLLM会输出多余的空内容块,OpenAI兼容后端常返回不完整的工具参数JSON
+function defaultStreamTransforms(id: string, format: TargetFormat): string[] {
+  if (format === 'openai') {
+    return ['repairToolUse'];
+  }
+  return id === 'litellm' ? ['dropEmptyBlocks'] : [];
+}
+
+// 内置Provider的id
+export const BUILTIN_PROVIDER_IDS = [...Object.keys(PROVIDER_PRESETS), 'custom', 'openai', 'litellm', 'cliproxyapi'];
+
+// 从 providers.<id>.* 设置读取内置Provider
+function getBuiltinProviders(config: vscode.WorkspaceConfiguration): ProviderDefinition[] {
+  const providers: ProviderDefinition[] = [];
+
+  const read = (id: string, baseUrl: string, authStyle: AuthStyle, format: TargetFormat) => {
+    providers.push({
+      id,
+      enabled: config.get<boolean>(`providers.${id}.enabled`, false),
+      baseUrl,
+      authStyle,
+      apiKeys: preferSecretKeys(id, collectKeys(config.get<string>(`providers.${id}.apiKey`, ''), config.get<string[]>(`providers.${id}.apiKeys`, []))),
+      headers: {},
+      models: config.get<string[]>(`providers.${id}.models`, []),
+      format,
+      countTokens: format === 'anthropic'
+        ? config.get<CountTokensMode>(`providers.${id}.countTokens`, defaultCountTokens(id, format))
+        : 'emulate',
+      // 在默认配置上叠加设置
+      capabilities: { ...defaultCapabilities(id, format), ...config.get<CapabilityProfile>(`providers.${id}.capabilities`, {}) },
+      // 转换格式的provider在转换器输出的Anthropic流上应用
+      streamTransforms: config.get<string[]>(`providers.${id}.streamTransforms`, defaultStreamTransforms(id, format)),
+      reasoning: config.get<ReasoningMode>(`providers.${id}.reasoning`, 'off'),
+      timeouts: config.get<TimeoutSettings>(`providers.${id}.timeouts`, {}),
+      retry: config.get<RetryPolicy>(`providers.${id}.retry`, {}),
+      maxConcurrency: config.get<number>(`providers.${id}.maxConcurrency`, 0)
+    });
+  };
+
+  for (const [id, preset] of Object.entries(PROVIDER_PRESETS)) {
+    read(id, preset.baseUrl, preset.authStyle, preset.format);
+  }
+
+  read('custom', config.get<string>('providers.custom.baseUrl', 'https://api.siliconflow.cn'), 'x-api-key', 'anthropic');
+  read('openai', config.get<string>('providers.openai.baseUrl', 'https://api.openai.com/v1'), 'bearer', 'openai');
+
+  // 本地sidecar进程
+  read('litellm', `http://127.0.0.1:${config.get<number>('providers.litellm.port', 4100)}`, 'bearer', 'anthropic');
+  read('cliproxyapi', `http://127.0.0.1:${config.get<number>('providers.cliproxyapi.port', 4200)}`, 'bearer', 'anthropic');
+
+  return providers;
+}
+
+// 将registry条目与preset/同名内置Provider合并
+function resolveEntry(entry: RegistryEntry, builtins: ProviderDefinition[]): ProviderDefinition | null {
+  const base = builtins.find(provider => provider.id === (entry.preset || entry.id));
+  if (entry.preset && !base) {
+    console.warn(`Unknown provider preset: ${entry.preset}`);
+    return null;
+  }
+
+  const baseUrl = entry.baseUrl || base?.baseUrl;
+  if (!baseUrl) {
+    console.warn(`Provider ${entry.id} has no baseUrl`);
+    return null;
+  }
+
+  const format = entry.format || base?.format || 'anthropic';
+  return {
+    id: entry.id,
+    enabled: entry.enabled ?? true,
+    baseUrl,
+    authStyle: entry.authStyle || base?.authStyle || 'x-api-key',
+    apiKeys: preferSecretKeys(entry.id, entry.apiKey || entry.apiKeys ? collectKeys(entry.apiKey, entry.apiKeys) : base?.apiKeys || []),
+    headers: { ...(base?.headers || {}), ...(entry.headers || {}) },
+    models: entry.models || base?.models || [],
+    format,
+    countTokens: format === 'anthropic'
+      ? entry.countTokens || (format === base?.format ? base.countTokens : undefined) || defaultCountTokens(entry.id, format)
+      : 'emulate',
+    capabilities: { ...(base?.capabilities || defaultCapabilities(entry.id, format)), ...(entry.capabilities || {}) },
+    streamTransforms: entry.streamTransforms || (format === base?.format ? base.streamTransforms : undefined) || defaultStreamTransforms(entry.id, format),
+    reasoning: entry.reasoning || base?.reasoning || 'off',
+    timeouts: { ...(base?.timeouts || {}), ...(entry.timeouts || {}) },
+    retry: { ...(base?.retry || {}), ...(entry.retry || {}) },
+    maxConcurrency: entry.maxConcurrency ?? base?.maxConcurrency ?? 0
+  };
+}
+
+/**
+ * 获取所有Provider (包括未启用的)
+ * registry中与内置Provider同id的条目会覆盖内置定义
+ */
+export function getProviders(config: vscode.WorkspaceConfiguration): ProviderDefinition[] {
+  const builtins = getBuiltinProviders(config);
+  const entries = config.get<RegistryEntry[]>('providers.registry', []);
+
+  const providers = [...builtins];
+  for (const entry of entries) {
+    if (!entry?.id) {
+      console.warn('Provider registry entry without id ignored');
+      continue;
+    }
+    const provider = resolveEntry(entry, builtins);
+    if (!provider) {
+      continue;
+    }
+    const index = providers.findIndex(existing => existing.id === provider.id);
+    if (index >= 0) {
+      providers[index] = provider;
+    } else {
+      providers.push(provider);
+    }
+  }
+
+  return providers;
+}
+
+// 按id查找Provider
+export function findProvider(config: vscode.WorkspaceConfiguration, id: string): ProviderDefinition | undefined {
+  return getProviders(config).find(provider => provider.id === id);
+}
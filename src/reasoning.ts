@@ -0,0 +1,298 @@
+/**
+ * 推理内容处理
+ * 将provider的推理输出 (thinking块、文本中的<think>标签) 转换为Anthropic thinking块或完全删除
+ */
+
+import { SSEEvent, SSETransformFactory } from './sse';
+
+// off: 不处理; thinking: 转换为thinking块; strip: 删除; request: 请求开启thinking时转换,否则删除
+export type ReasoningMode = 'off' | 'thinking' | 'strip' | 'request';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * 按请求确定实际的处理方式
+ */
+export function resolveReasoningMode(mode: ReasoningMode | undefined, requestBody: any): 'off' | 'thinking' | 'strip' {
+  if (mode === 'request') {
+    return requestBody?.thinking?.type === 'enabled' ? 'thinking' : 'strip';
+  }
+  return mode === 'thinking' || mode === 'strip' ? mode : 'off';
+}
+
+interface TextSegment {
+  thinking: boolean;
+  text: string;
+}
+
+// text末尾可能是标签开头部分的长度 (需要等待下一段才能判断)
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.substring(text.length - length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 增量拆分文本中的<think>...</think>,标签可以跨delta切分
+ */
+class ThinkTagSplitter {
+  private pending = '';
+  private inThink = false;
+  private trimLeading = false;
+
+  push(text: string): TextSegment[] {
+    this.pending += text;
+    const segments: TextSegment[] = [];
+    while (true) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const position = this.pending.indexOf(tag);
+      if (position < 0) {
+        const keep = partialTagLength(this.pending, tag);
+        this.emit(segments, this.pending.substring(0, this.pending.length - keep));
+        this.pending = this.pending.substring(this.pending.length - keep);
+        return segments;
+      }
+      this.emit(segments, this.pending.substring(0, position));
+      this.pending = this.pending.substring(position + tag.length);
+      this.inThink = !this.inThink;
+      // 标签后通常紧跟换行
+      this.trimLeading = true;
+    }
+  }
+
+  end(): TextSegment[] {
+    const segments: TextSegment[] = [];
+    this.emit(segments, this.pending);
+    this.pending = '';
+    return segments;
+  }
+
+  private emit(segments: TextSegment[], text: string): void {
+    if (this.trimLeading) {
+      text = text.replace(/^\s+/, '');
+      if (text) {
+        this.trimLeading = false;
+      }
+    }
+    if (text) {
+      segments.push({ thinking: this.inThink, text });
+    }
+  }
+}
+
+function isThinkingBlock(block: any): boolean {
+  return block?.type === 'thinking' || block?.type === 'redacted_thinking';
+}
+
+/**
+ * 非流式响应: 处理message.content中的thinking块和<think>标签
+ */
+export function applyReasoningToMessage(message: any, mode: 'thinking' | 'strip'): any {
+  if (!Array.isArray(message?.content)) {
+    return message;
+  }
+  const content: any[] = [];
+  for (const block of message.content) {
+    if (isThinkingBlock(block)) {
+      if (mode === 'thinking') {
+        content.push(block);
+      }
+      continue;
+    }
+    if (block?.type !== 'text' || typeof block.text !== 'string') {
+      content.push(block);
+      continue;
+    }
+    const splitter = new ThinkTagSplitter();
+    let previous: any = null;
+    for (const segment of [...splitter.push(block.text), ...splitter.end()]) {
+      if (segment.thinking && mode === 'strip') {
+        continue;
+      }
+      // 同一个text块中相邻的同类片段合并
+      if (previous && (previous.type === 'thinking') === segment.thinking) {
+        if (segment.thinking) {
+          previous.thinking += segment.text;
+        } else {
+          previous.text += segment.text;
+        }
+        continue;
+      }
+      previous = segment.thinking
+        ? { type: 'thinking', thinking: segment.text, signature: '' }
+        : { ...block, text: segment.text };
+      content.push(previous);
+    }
+  }
+  message.content = content;
+  return message;
+}
+
+/**
+ * 删除assistant历史消息中没有签名的thinking块 (其他provider的推理内容转换而来)
+ * Anthropic官方API会拒绝签名无效的thinking块,需要删除时返回副本,不修改原请求体
+ */
+export function stripUnsignedThinking(body: any): { body: any; count: number } {
+  const isUnsigned = (block: any) => block?.type === 'thinking' && !block.signature;
+  const hasUnsigned = (body?.messages || []).some((message: any) =>
+    message?.role === 'assistant' && Array.isArray(message.content) && message.content.some(isUnsigned));
+  if (!hasUnsigned) {
+    return { body, count: 0 };
+  }
+
+  let count = 0;
+  const messages = body.messages.map((message: any) => {
+    if (message?.role !== 'assistant' || !Array.isArray(message.content)) {
+      return message;
+    }
+    const content = message.content.filter((block: any) => !isUnsigned(block));
+    count += message.content.length - content.length;
+    return { ...message, content };
+  });
+  return { body: { ...body, messages }, count };
+}
+
+/**
+ * 流式响应转换: 将text块中的<think>内容拆分为thinking块 (或删除),strip时同时删除上游的thinking块
+ * 拆分/删除块后内容块index会重新编号
+ */
+export function reasoningTransform(mode: 'thinking' | 'strip'): SSETransformFactory {
+  return notes => {
+    let nextIndex = 0;
+    let converted = false;
+    let stripped = false;
+    // 由text块拆分出的当前输出块
+    let current: { type: 'text' | 'thinking'; index: number } | null = null;
+    // 上游index -> 处理方式
+    const upstream = new Map<number, { kind: 'text' | 'drop' | 'pass'; index?: number; splitter?: ThinkTagSplitter }>();
+
+    const event = (json: any): SSEEvent => ({ event: json.type, data: '', json });
+
+    const closeCurrent = (events: SSEEvent[]) => {
+      if (current) {
+        events.push(event({ type: 'content_block_stop', index: current.index }));
+        current = null;
+      }
+    };
+
+    const emitSegments = (segments: TextSegment[], events: SSEEvent[]) => {
+      for (const segment of segments) {
+        if (segment.thinking && mode === 'strip') {
+          stripped = true;
+          continue;
+        }
+        const type = segment.thinking ? 'thinking' : 'text';
+        if (current?.type !== type) {
+          closeCurrent(events);
+          current = { type, index: nextIndex++ };
+          events.push(event({
+            type: 'content_block_start',
+            index: current.index,
+            content_block: type === 'thinking' ? { type: 'thinking', thinking: '', signature: '' } : { type: 'text', text: '' }
+          }));
+        }
+        if (segment.thinking) {
+          converted = true;
+        }
+        events.push(event({
+          type: 'content_block_delta',
+          index: current.index,
+          delta: type === 'thinking' ? { type: 'thinking_delta', thinking: segment.text } : { type: 'text_delta', text: segment.text }
+        }));
+      }
+    };
+
+    const finishText = (upstreamIndex: number, events: SSEEvent[]) => {
+      const entry = upstream.get(upstreamIndex);
+      if (entry?.splitter) {
+        emitSegments(entry.splitter.end(), events);
+        closeCurrent(events);
+      }
+      upstream.delete(upstreamIndex);
+    };
+
+    return {
+      process(item) {
+        const json = item.json;
+        const entry = typeof json?.index === 'number' ? upstream.get(json.index) : undefined;
+        switch (json?.type) {
+          case 'content_block_start': {
+            const events: SSEEvent[] = [];
+            closeCurrent(events);
+            const block = json.content_block;
+            if (isThinkingBlock(block) && mode === 'strip') {
+              upstream.set(json.index, { kind: 'drop' });
+              stripped = true;
+              return events;
+            }
+            if (block?.type === 'text') {
+              const splitter = new ThinkTagSplitter();
+              upstream.set(json.index, { kind: 'text', splitter });
+              emitSegments(splitter.push(block.text || ''), events);
+              return events;
+            }
+            upstream.set(json.index, { kind: 'pass', index: nextIndex });
+            json.index = nextIndex++;
+            events.push(item);
+            return events;
+          }
+          case 'content_block_delta':
+            if (!entry) {
+              return [item];
+            }
+            if (entry.kind === 'drop') {
+              return [];
+            }
+            if (entry.kind === 'text') {
+              const events: SSEEvent[] = [];
+              if (json.delta?.type === 'text_delta') {
+                emitSegments(entry.splitter!.push(json.delta.text || ''), events);
+              } else if (current) {
+                // citations等附加在当前文本块上
+                json.index = current.index;
+                events.push(item);
+              }
+              return events;
+            }
+            json.index = entry.index;
+            return [item];
+          case 'content_block_stop': {
+            if (!entry) {
+              return [item];
+            }
+            if (entry.kind === 'text') {
+              const events: SSEEvent[] = [];
+              finishText(json.index, events);
+              return events;
+            }
+            upstream.delete(json.index);
+            if (entry.kind === 'drop') {
+              return [];
+            }
+            json.index = entry.index;
+            return [item];
+          }
+          default:
+            return [item];
+        }
+      },
+      flush() {
+        const events: SSEEvent[] = [];
+        for (const upstreamIndex of Array.from(upstream.keys())) {
+          finishText(upstreamIndex, events);
+        }
+        if (converted) {
+          notes.push('reasoning converted to thinking blocks');
+        }
+        if (stripped) {
+          notes.push('reasoning stripped');
+        }
+        return events;
+      }
+    };
+  };
+}
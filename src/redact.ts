@@ -0,0 +1,105 @@
+/**
+ * 日志脱敏: 请求/响应头中的凭据、已配置的API密钥,以及自定义正则匹配的内容
+ */
+
+export interface RedactOptions {
+  headers: string[];  // 额外需要脱敏的请求头名 (不区分大小写)
+  patterns: RegExp[];  // 应用于请求体/响应体中所有字符串的正则
+  secrets: string[];  // 需要从日志任意位置移除的密钥原文 (如provider的API密钥)
+}
+
+const REDACTED = '[REDACTED]';
+
+// 始终脱敏的请求头
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'x-api-key', 'x-goog-api-key', 'api-key', 'cookie', 'set-cookie'];
+
+// 名称中以完整片段出现这些词的请求头视为敏感 (如x-session-id、x-auth-token)
+// 按'-'分段匹配,避免误伤anthropic-ratelimit-input-tokens-remaining这类限流头
+const SENSITIVE_HEADER_PATTERN = /(^|-)(api-?key|secret|session|auth-?token)($|-)/i;
+
+// 编译用户配置的正则,无效的正则跳过
+export function compilePatterns(patterns: string[]): RegExp[] {
+  const result: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      result.push(new RegExp(pattern, 'g'));
+    } catch (e) {
+      console.warn(`无效的脱敏正则: ${pattern}`, e);
+    }
+  }
+  return result;
+}
+
+function isSensitiveHeader(name: string, extra: string[]): boolean {
+  const lower = name.toLowerCase();
+  return SENSITIVE_HEADERS.includes(lower) ||
+    SENSITIVE_HEADER_PATTERN.test(lower) ||
+    extra.some(header => header.toLowerCase() === lower);
+}
+
+function redactHeaders(headers: any, options: RedactOptions): any {
+  if (!headers || typeof headers !== 'object') {
+    return headers;
+  }
+  const result: any = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = isSensitiveHeader(name, options.headers) ? REDACTED : redactValue(value, options);
+  }
+  return result;
+}
+
+function redactString(value: string, options: RedactOptions): string {
+  let result = value;
+  for (const secret of options.secrets) {
+    if (secret && result.includes(secret)) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+  for (const pattern of options.patterns) {
+    pattern.lastIndex = 0;
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
+
+// 递归处理任意值中的字符串
+function redactValue(value: any, options: RedactOptions): any {
+  if (typeof value === 'string') {
+    return redactString(value, options);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, options));
+  }
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = redactValue(item, options);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * 对一条日志做脱敏,返回新对象
+ * headers字段按请求头规则处理,其余字段只处理字符串内容
+ */
+export function redactLog(log: any, options: RedactOptions): any {
+  const redactSection = (section: any) => {
+    if (!section || typeof section !== 'object') {
+      return redactValue(section, options);
+    }
+    const result: any = {};
+    for (const [key, value] of Object.entries(section)) {
+      result[key] = key === 'headers' ? redactHeaders(value, options) : redactValue(value, options);
+    }
+    return result;
+  };
+
+  return {
+    ...log,
+    request: redactSection(log.request),
+    response: redactSection(log.response),
+    error: redactValue(log.error, options)
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * 请求重放: 将日志中的请求经由代理发送到指定目标,并与原响应做diff
+ */
+
+import * as vscode from 'vscode';
+import { assembleStreamMessage } from './anthropic';
+import { getProviders } from './providers';
+
+// 指定映射目标的请求头,代理收到后跳过路由规则和haiku/main映射
+export const REPLAY_TARGET_HEADER = 'x-claude-proxy-target';
+
+// diff编辑器使用的虚拟文档
+const REPLAY_SCHEME = 'claude-proxy-replay';
+
+// 重放时从原请求保留的请求头 (认证头已脱敏,由目标provider的密钥代替)
+const REPLAY_HEADERS = ['anthropic-version', 'anthropic-beta', 'content-type'];
+
+const documents = new Map<string, string>();
+
+let replayCount = 0;
+
+// 注册diff使用的虚拟文档provider
+export function registerReplayContentProvider(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(REPLAY_SCHEME, {
+      provideTextDocumentContent: uri => documents.get(uri.path) || ''
+    })
+  );
+}
+
+/**
+ * 选择重放目标 (已启用provider的模型,或手动输入 provider:model)
+ */
+export async function pickReplayTarget(originalTarget: string | undefined): Promise<string | undefined> {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const items: vscode.QuickPickItem[] = [];
+  for (const provider of getProviders(config)) {
+    if (!provider.enabled) {
+      continue;
+    }
+    for (const model of provider.models) {
+      const target = `${provider.id}:${model}`;
+      items.push({ label: target, description: target === originalTarget ? '原始目标' : '' });
+    }
+  }
+  const inputLabel = '$(edit) 输入目标...';
+  items.push({ label: inputLabel, description: '格式: provider:model' });
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择重放的目标' });
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.label !== inputLabel) {
+    return selected.label;
+  }
+  return vscode.window.showInputBox({
+    prompt: '输入重放目标 (provider:model)',
+    value: originalTarget,
+    validateInput: value => /^[^:\s]+:\S+$/.test(value.trim()) ? null : '格式应为 provider:model'
+  });
+}
+
+// SSE文本中的data事件
+function parseSSEData(text: string): any[] {
+  const events: any[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('data:')) {
+      continue;
+    }
+    const data = line.substring(5).trim();
+    if (!data || data === '[DONE]') {
+      continue;
+    }
+    try {
+      events.push(JSON.parse(data));
+    } catch (e) {
+      // 忽略无法解析的事件
+    }
+  }
+  return events;
+}
+
+/**
+ * 经由代理重放日志中的请求,返回最终消息 (流式响应重建为完整消息)
+ */
+export async function replayRequest(log: any, target: string, port: number): Promise<any> {
+  const request = log?.request;
+  if (!request?.body || !request.url) {
+    throw new Error('日志中没有可重放的请求体');
+  }
+
+  // 日志中记录的是映射后的模型,恢复为客户端请求的模型
+  const body = { ...request.body, model: request.mapping?.originalModel || request.body.model };
+
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'anthropic-version': '2023-06-01'
+  };
+  for (const [key, value] of Object.entries(request.headers || {})) {
+    if (REPLAY_HEADERS.includes(key.toLowerCase()) && typeof value === 'string') {
+      headers[key.toLowerCase()] = value;
+    }
+  }
+  headers[REPLAY_TARGET_HEADER] = target;
+
+  const response = await fetch(`http://127.0.0.1:${port}${request.url}`, {
+    method: request.method || 'POST',
+    headers,
+    body: JSON.stringify(body)
+  });
+  const text = await response.text();
+
+  if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+    return assembleStreamMessage(parseSSEData(text));
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return { type: 'error', error: { type: 'api_error', message: `HTTP ${response.status}: ${text}` } };
+  }
+}
+
+/**
+ * 用于比较的消息内容: 去掉id、签名等每次都不同的字段
+ */
+export function comparableMessage(message: any): any {
+  if (!message || typeof message !== 'object') {
+    return { error: message ?? null };
+  }
+  if (message.type === 'error' || (message.error && !message.content)) {
+    return { error: message.error };
+  }
+  const content = (Array.isArray(message.content) ? message.content : []).map((block: any) => {
+    if (block?.type === 'text') {
+      return { type: 'text', text: block.text };
+    }
+    if (block?.type === 'thinking') {
+      return { type: 'thinking', thinking: block.thinking };
+    }
+    if (block?.type === 'tool_use') {
+      return { type: 'tool_use', name: block.name, input: block.input };
+    }
+    return { type: block?.type };
+  });
+  return {
+    model: message.model,
+    stop_reason: message.stop_reason ?? null,
+    usage: message.usage ?? null,
+    content
+  };
+}
+
+/**
+ * 在diff编辑器中并排显示两个最终消息
+ */
+export async function showReplayDiff(original: any, originalLabel: string, replayed: any, replayLabel: string): Promise<void> {
+  const id = ++replayCount;
+  const fileName = (label: string) => label.replace(/[^\w.-]/g, '_');
+  const left = `/${id}/${fileName(originalLabel)}.json`;
+  const right = `/${id}/${fileName(replayLabel)}.json`;
+  documents.set(left, JSON.stringify(comparableMessage(original), null, 2));
+  documents.set(right, JSON.stringify(comparableMessage(replayed), null, 2));
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    vscode.Uri.from({ scheme: REPLAY_SCHEME, path: left }),
+    vscode.Uri.from({ scheme: REPLAY_SCHEME, path: right }),
+    `${originalLabel} ↔ ${replayLabel} (重放)`
+  );
+}
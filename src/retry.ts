@@ -0,0 +1,130 @@
+/**
+ * 上游请求重试策略: 指数退避 + 抖动,遵循retry-after
+ */
+
+export interface RetryPolicy {
+  maxAttempts?: number;  // 最多请求次数 (含第一次), 1 表示不重试
+  statuses?: number[];  // 需要重试的状态码
+  baseDelayMs?: number;  // 第一次重试前的基础等待时间,之后每次翻倍
+  maxDelayMs?: number;  // 单次等待上限,retry-after超过此值时不再重试
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  statuses: [429, 500, 502, 503, 529],
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// retry-after: 秒数或HTTP日期
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * 第attempt次请求失败后的等待时间 (毫秒),retry-after超过上限时返回null (不再重试)
+ */
+export function retryDelay(attempt: number, policy: Required<RetryPolicy>, retryAfter: string | null): number | null {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== null) {
+    return requested <= policy.maxDelayMs ? requested : null;
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // 抖动: 在退避时间的50%~100%之间随机,避免多个请求同时重试
+  return Math.round(backoff * (0.5 + Math.random() * 0.5));
+}
+
+// 可被中止的等待
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isOverloaded(text: string): boolean {
+  return text.includes('overloaded_error');
+}
+
+// 将已读取的数据放回响应体前面,返回等价的Response
+function prependBody(response: Response, chunks: Uint8Array[], reader: ReadableStreamDefaultReader<Uint8Array>): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) {
+        controller.enqueue(chunk);
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * 判断响应是否需要重试: 状态码在重试列表中,或错误响应体/流式响应的第一个事件是overloaded_error
+ * 检查时读取的数据会放回返回的response中
+ */
+export async function checkRetryable(
+  response: Response,
+  policy: Required<RetryPolicy>
+): Promise<{ retryable: boolean; reason: string; response: Response }> {
+  if (policy.statuses.includes(response.status)) {
+    return { retryable: true, reason: `HTTP ${response.status}`, response };
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    const rebuilt = new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+    return { retryable: isOverloaded(text), reason: `HTTP ${response.status} overloaded_error`, response: rebuilt };
+  }
+
+  // 流式响应: 读取第一个事件,上游在200响应中返回overloaded错误事件时也重试
+  if (!(response.headers.get('content-type') || '').includes('text/event-stream') || !response.body) {
+    return { retryable: false, reason: '', response };
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: Uint8Array[] = [];
+  let text = '';
+  while (!/\r?\n\r?\n/.test(text)) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    text += decoder.decode(value, { stream: true });
+  }
+  const firstEvent = text.split(/\r?\n\r?\n/)[0];
+  if (isOverloaded(firstEvent)) {
+    return { retryable: true, reason: 'overloaded_error event', response: prependBody(response, chunks, reader) };
+  }
+  return { retryable: false, reason: '', response: prependBody(response, chunks, reader) };
+}
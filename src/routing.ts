@@ -0,0 +1,122 @@
+/**
+ * 基于规则的路由
+ * 规则按顺序匹配,第一条命中的规则决定映射目标;都不命中时使用haiku/main映射
+ */
+
+export interface RoutingRule {
+  name?: string;
+  model?: string;  // 请求模型名, glob (*, ?) 或 /regex/flags
+  path?: string;  // 请求路径, glob 或 /regex/flags
+  thinking?: boolean;  // 是否启用了thinking
+  tools?: boolean;  // 是否带有tools
+  images?: boolean;  // 消息中是否有图片
+  minInputTokens?: number;  // 估算输入token数下限 (含)
+  maxInputTokens?: number;  // 估算输入token数上限 (含)
+  target: string;  // 映射目标: provider:model 或映射链, 'main'/'haiku' 表示使用对应映射, 'pass' 透传
+}
+
+// 图片按固定token数估算
+const IMAGE_TOKENS = 1600;
+
+// glob或/regex/转为正则
+function toRegExp(pattern: string): RegExp | null {
+  const regexMatch = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (e) {
+      console.warn(`无效的路由正则: ${pattern}`, e);
+      return null;
+    }
+  }
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchPattern(pattern: string, value: string): boolean {
+  const regex = toRegExp(pattern);
+  return !!regex && regex.test(value);
+}
+
+// 消息content中是否含有图片 (包括tool_result中的图片)
+export function hasImages(body: any): boolean {
+  const check = (content: any): boolean => {
+    if (!Array.isArray(content)) {
+      return false;
+    }
+    return content.some((block: any) =>
+      block?.type === 'image' || (block?.type === 'tool_result' && check(block.content)));
+  };
+  return (body?.messages || []).some((message: any) => check(message.content));
+}
+
+// 递归累计文本长度,图片按固定token数计
+function contentTokens(value: any): number {
+  if (typeof value === 'string') {
+    return value.length / 4;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((sum: number, item: any) => sum + contentTokens(item), 0);
+  }
+  if (value && typeof value === 'object') {
+    if (value.type === 'image') {
+      return IMAGE_TOKENS;
+    }
+    let sum = 0;
+    for (const [key, item] of Object.entries(value)) {
+      // 跳过签名等不计入上下文的字段
+      if (key === 'signature' || key === 'cache_control') {
+        continue;
+      }
+      sum += contentTokens(item);
+    }
+    return sum;
+  }
+  return 0;
+}
+
+/**
+ * 粗略估算请求的输入token数 (约4字符/token)
+ */
+export function estimateInputTokens(body: any): number {
+  return Math.ceil(contentTokens(body?.system) + contentTokens(body?.messages) + contentTokens(body?.tools));
+}
+
+function ruleMatches(rule: RoutingRule, body: any, pathname: string): boolean {
+  if (rule.model !== undefined && !matchPattern(rule.model, body?.model || '')) {
+    return false;
+  }
+  if (rule.path !== undefined && !matchPattern(rule.path, pathname)) {
+    return false;
+  }
+  if (rule.thinking !== undefined && (body?.thinking?.type === 'enabled') !== rule.thinking) {
+    return false;
+  }
+  if (rule.tools !== undefined && (Array.isArray(body?.tools) && body.tools.length > 0) !== rule.tools) {
+    return false;
+  }
+  if (rule.images !== undefined && hasImages(body) !== rule.images) {
+    return false;
+  }
+  if (rule.minInputTokens !== undefined || rule.maxInputTokens !== undefined) {
+    const tokens = estimateInputTokens(body);
+    if (rule.minInputTokens !== undefined && tokens < rule.minInputTokens) {
+      return false;
+    }
+    if (rule.maxInputTokens !== undefined && tokens > rule.maxInputTokens) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 返回第一条匹配的规则
+ */
+export function matchRoutingRule(rules: RoutingRule[], body: any, url: string | undefined): RoutingRule | undefined {
+  const pathname = new URL(url || '/', 'http://127.0.0.1').pathname;
+  return rules.find(rule => rule?.target && ruleMatches(rule, body, pathname));
+}
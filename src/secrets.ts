@@ -0,0 +1,163 @@
+/**
+ * API密钥安全存储 (VS Code SecretStorage)
+ * SecretStorage是异步接口,启动时加载到内存缓存,请求处理时同步读取
+ */
+
+import * as vscode from 'vscode';
+
+// 每个provider一项,值为密钥数组的JSON
+const SECRET_PREFIX = 'claudeProxy.apiKeys.';
+
+// provider -> 密钥池
+const secretCache = new Map<string, string[]>();
+
+let secretStorage: vscode.SecretStorage | null = null;
+
+function parseKeys(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(key => typeof key === 'string' && key) : [];
+  } catch (e) {
+    return [value];
+  }
+}
+
+/**
+ * 初始化并加载指定provider的密钥
+ * 其他窗口修改密钥时同步更新缓存
+ */
+export async function initSecrets(context: vscode.ExtensionContext, providerIds: string[]): Promise<void> {
+  secretStorage = context.secrets;
+  await loadSecretKeys(providerIds);
+
+  context.subscriptions.push(
+    context.secrets.onDidChange(async e => {
+      if (e.key.startsWith(SECRET_PREFIX)) {
+        await reloadSecret(e.key.substring(SECRET_PREFIX.length));
+      }
+    })
+  );
+}
+
+// 加载(或重新加载)指定provider的密钥到缓存,registry新增provider时调用
+export async function loadSecretKeys(providerIds: string[]): Promise<void> {
+  for (const id of providerIds) {
+    await reloadSecret(id);
+  }
+}
+
+async function reloadSecret(providerId: string): Promise<void> {
+  if (!secretStorage) {
+    return;
+  }
+  const keys = parseKeys(await secretStorage.get(SECRET_PREFIX + providerId));
+  if (keys.length > 0) {
+    secretCache.set(providerId, keys);
+  } else {
+    secretCache.delete(providerId);
+  }
+}
+
+// 读取provider在安全存储中的密钥 (同步,来自缓存)
+export function getSecretKeys(providerId: string): string[] {
+  return secretCache.get(providerId) || [];
+}
+
+// 保存provider的密钥,空数组表示删除
+export async function setSecretKeys(providerId: string, keys: string[]): Promise<void> {
+  if (!secretStorage) {
+    throw new Error('SecretStorage not initialized');
+  }
+  if (keys.length === 0) {
+    await secretStorage.delete(SECRET_PREFIX + providerId);
+    secretCache.delete(providerId);
+  } else {
+    await secretStorage.store(SECRET_PREFIX + providerId, JSON.stringify(keys));
+    secretCache.set(providerId, keys);
+  }
+}
+
+// 设置项在各作用域中的值
+function inspectScopes<T>(config: vscode.WorkspaceConfiguration, key: string): [vscode.ConfigurationTarget, T][] {
+  const inspected = config.inspect<T>(key);
+  const scopes: [vscode.ConfigurationTarget, T | undefined][] = [
+    [vscode.ConfigurationTarget.Global, inspected?.globalValue],
+    [vscode.ConfigurationTarget.Workspace, inspected?.workspaceValue],
+    [vscode.ConfigurationTarget.WorkspaceFolder, inspected?.workspaceFolderValue]
+  ];
+  return scopes.filter(([, value]) => value !== undefined) as [vscode.ConfigurationTarget, T][];
+}
+
+// settings.json中是否还有明文密钥
+export function hasPlaintextKeys(builtinIds: string[]): boolean {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  for (const id of builtinIds) {
+    if (config.get<string>(`providers.${id}.apiKey`, '') || config.get<string[]>(`providers.${id}.apiKeys`, []).length > 0) {
+      return true;
+    }
+  }
+  const entries = config.get<any[]>('providers.registry', []);
+  return entries.some(entry => entry?.apiKey || (Array.isArray(entry?.apiKeys) && entry.apiKeys.length > 0));
+}
+
+/**
+ * 将settings.json中的明文密钥迁移到安全存储,并清空对应设置
+ * 先写入安全存储,成功后才清空设置,避免丢失密钥
+ * 返回迁移的provider数量
+ */
+export async function migratePlaintextKeys(builtinIds: string[]): Promise<number> {
+  const config = vscode.workspace.getConfiguration('claudeProxy');
+  const collected = new Map<string, string[]>();
+  const clearSettings: (() => Thenable<void>)[] = [];
+
+  const collect = (id: string, keys: (string | undefined)[]) => {
+    const valid = keys.map(key => (key || '').trim()).filter(key => key.length > 0);
+    if (valid.length > 0) {
+      collected.set(id, [...(collected.get(id) || []), ...valid]);
+    }
+  };
+
+  // 内置provider: providers.<id>.apiKey / apiKeys
+  for (const id of builtinIds) {
+    for (const [target, value] of inspectScopes<string>(config, `providers.${id}.apiKey`)) {
+      collect(id, [value]);
+      clearSettings.push(() => config.update(`providers.${id}.apiKey`, undefined, target));
+    }
+    for (const [target, value] of inspectScopes<string[]>(config, `providers.${id}.apiKeys`)) {
+      collect(id, value);
+      clearSettings.push(() => config.update(`providers.${id}.apiKeys`, undefined, target));
+    }
+  }
+
+  // registry条目: 移除apiKey/apiKeys字段
+  for (const [target, entries] of inspectScopes<any[]>(config, 'providers.registry')) {
+    let changed = false;
+    const cleaned = entries.map(entry => {
+      if (!entry?.id || (!entry.apiKey && !entry.apiKeys)) {
+        return entry;
+      }
+      collect(entry.id, [entry.apiKey, ...(entry.apiKeys || [])]);
+      changed = true;
+      const { apiKey, apiKeys, ...rest } = entry;
+      return rest;
+    });
+    if (changed) {
+      clearSettings.push(() => config.update('providers.registry', cleaned, target));
+    }
+  }
+
+  for (const [id, keys] of collected) {
+    const merged = Array.from(new Set([...getSecretKeys(id), ...keys]));
+    await setSecretKeys(id, merged);
+    console.log(`已将 ${id} 的 ${keys.length} 个密钥迁移到安全存储`);
+  }
+
+  for (const clear of clearSettings) {
+    await clear();
+  }
+
+  return collected.size;
+}
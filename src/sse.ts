@@ -0,0 +1,589 @@
+/**
+ * 增量SSE解析与转换管线
+ * 缓冲跨网络分块的不完整事件,按provider配置依次经过转换后重新序列化给客户端
+ */
+
+import { sseEvent } from './anthropic';
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+  json?: any;  // data能解析为JSON时的解析结果,转换修改json后序列化时使用
+}
+
+/**
+ * 单个转换: 处理一个事件,返回要输出的事件 (空数组表示丢弃,多个表示插入)
+ * flush在流结束时调用,可补发事件
+ */
+export interface SSETransform {
+  process(event: SSEEvent): SSEEvent[];
+  flush?(): SSEEvent[];
+}
+
+// 每个流创建新的转换实例; notes用于记录需要写入日志的处理说明
+export type SSETransformFactory = (notes: string[]) => SSETransform;
+
+/**
+ * 增量SSE解析器
+ */
+export class SSEParser {
+  private buffer = '';
+  private eventName: string | undefined;
+  private dataLines: string[] = [];
+
+  // 输入一段文本,返回已完整的事件
+  push(text: string): SSEEvent[] {
+    this.buffer += text;
+    const events: SSEEvent[] = [];
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+      // \r在末尾时可能是\r\n的前半部分,等待下一段
+      if (char === '\r' && i === this.buffer.length - 1) {
+        break;
+      }
+      this.handleLine(this.buffer.substring(start, i), events);
+      if (char === '\r' && this.buffer[i + 1] === '\n') {
+        i++;
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.substring(start);
+    return events;
+  }
+
+  // 流结束: 输出没有以空行结尾的最后一个事件
+  end(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      this.handleLine(this.buffer.replace(/\r$/, ''), events);
+      this.buffer = '';
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private handleLine(line: string, events: SSEEvent[]): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) {
+      // 注释行
+      return;
+    }
+    const colon = line.indexOf(':');
+    const field = colon >= 0 ? line.substring(0, colon) : line;
+    let value = colon >= 0 ? line.substring(colon + 1) : '';
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+    if (field === 'event') {
+      this.eventName = value;
+    } else if (field === 'data') {
+      this.dataLines.push(value);
+    }
+  }
+
+  private dispatch(events: SSEEvent[]): void {
+    if (this.dataLines.length === 0 && this.eventName === undefined) {
+      return;
+    }
+    const data = this.dataLines.join('\n');
+    const event: SSEEvent = { event: this.eventName, data };
+    try {
+      event.json = JSON.parse(data);
+    } catch (e) {
+      // 非JSON数据 (如 [DONE]) 原样保留
+    }
+    events.push(event);
+    this.eventName = undefined;
+    this.dataLines = [];
+  }
+}
+
+// 序列化为SSE文本
+export function serializeSSEEvent(event: SSEEvent): string {
+  const data = event.json !== undefined ? JSON.stringify(event.json) : event.data;
+  const dataLines = data.split('\n').map(line => `data: ${line}`).join('\n');
+  return `${event.event !== undefined ? `event: ${event.event}\n` : ''}${dataLines}\n\n`;
+}
+
+// 删除空的tool_use/text块开始事件 (LiteLLM会输出多余的空块)
+const dropEmptyBlocks: SSETransformFactory = () => ({
+  process(event) {
+    const block = event.json?.content_block;
+    if (event.json?.type === 'content_block_start' &&
+        ((block?.type === 'tool_use' && block.input && Object.keys(block.input).length === 0) ||
+         (block?.type === 'text' && block.text === ''))) {
+      return [];
+    }
+    return [event];
+  }
+});
+
+// event名与data中的type不一致或缺失时以type为准
+const syncEventNames: SSETransformFactory = () => ({
+  process(event) {
+    const type = event.json?.type;
+    if (typeof type === 'string' && event.event !== type) {
+      event.event = type;
+    }
+    return [event];
+  }
+});
+
+// 将内容块index重新编号为从0开始的连续值 (上游跳号或前面的转换删除了块时)
+const fixIndices: SSETransformFactory = () => {
+  const mapping = new Map<number, number>();
+  return {
+    process(event) {
+      const json = event.json;
+      if (typeof json?.index !== 'number') {
+        return [event];
+      }
+      if (json.type === 'content_block_start') {
+        mapping.set(json.index, mapping.size);
+      }
+      const mapped = mapping.get(json.index);
+      if (mapped !== undefined) {
+        json.index = mapped;
+      }
+      return [event];
+    }
+  };
+};
+
+// 补全usage: message_start和message_delta缺少usage时补上,Claude Code依赖它统计token
+const injectUsage: SSETransformFactory = () => {
+  let outputTokens = 0;
+  return {
+    process(event) {
+      const json = event.json;
+      if (json?.type === 'message_start' && json.message) {
+        json.message.usage = { input_tokens: 0, output_tokens: 0, ...(json.message.usage || {}) };
+        outputTokens = json.message.usage.output_tokens;
+      } else if (json?.type === 'message_delta') {
+        json.usage = { output_tokens: outputTokens, ...(json.usage || {}) };
+      }
+      return [event];
+    }
+  };
+};
+
+/**
+ * 修复JSON: 去掉顶层值前后的多余内容
+ * truncated为true (输出被截断) 时还补全未结束的字符串和括号,缺失的值补为null
+ * 无法修复时返回null
+ */
+export function repairJson(text: string, truncated = true): string | null {
+  const start = text.search(/[{[]/);
+  if (start < 0) {
+    return text.trim() === '' ? '{}' : null;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let end = text.length;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return null;
+      }
+      if (stack.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+  }
+
+  let result = text.substring(start, end);
+  if (stack.length > 0 && !truncated) {
+    // 没有被截断却不完整,补全只会猜测缺失的内容
+    return null;
+  }
+  if (stack.length > 0) {
+    if (inString) {
+      result = (escaped ? result.slice(0, -1) : result) + '"';
+    }
+    // 末尾不完整的键值对
+    result = result.replace(/\s+$/, '');
+    if (result.endsWith(':')) {
+      result += 'null';
+    }
+    result = result.replace(/,$/, '');
+    result += stack.reverse().join('');
+  }
+
+  try {
+    JSON.parse(result);
+    return result;
+  } catch (e) {
+    return null;
+  }
+}
+
+// 内容块开始事件
+function blockStartEvent(index: number, block: any): SSEEvent {
+  const json = { type: 'content_block_start', index, content_block: block };
+  return { event: json.type, data: '', json };
+}
+
+function blockStopEvent(index: number): SSEEvent {
+  const json = { type: 'content_block_stop', index };
+  return { event: json.type, data: '', json };
+}
+
+/**
+ * 修复工具调用流: 按顺序重新编号index,补发缺失的content_block_stop
+ * tool_use块整体缓冲 (开始、input_json_delta),结束时校验拼接后的JSON再一次性发出:
+ * 正常结束的块只去掉JSON前后的多余内容; 只有流结束仍未收到content_block_stop时才补全被截断的JSON
+ * 已结束或未知块的input_json_delta意味着上游丢失了数据,作为错误记录
+ */
+const repairToolUse: SSETransformFactory = notes => {
+  let nextIndex = 0;
+  // 上游index -> 正在输出的text/thinking等块
+  const streaming = new Map<number, number>();
+  // 上游index -> 缓冲中的tool_use块
+  const tools = new Map<number, { block: any; json: string[]; deltas: SSEEvent[] }>();
+
+  const error = (message: string) => {
+    console.error(`[repairToolUse] ${message}`);
+    notes.push(`error: ${message}`);
+  };
+
+  const delta = (index: number, partialJson: string): SSEEvent => {
+    const json = { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: partialJson } };
+    return { event: json.type, data: '', json };
+  };
+
+  // 发出缓冲的tool_use块; truncated: 流结束时仍未收到content_block_stop
+  const emitTool = (upstreamIndex: number, truncated: boolean): SSEEvent[] => {
+    const tool = tools.get(upstreamIndex)!;
+    tools.delete(upstreamIndex);
+    const index = nextIndex++;
+    const label = `block ${index} (tool_use ${tool.block?.name})`;
+    if (index !== upstreamIndex) {
+      notes.push(`block ${index}: upstream index ${upstreamIndex} renumbered`);
+    }
+    const events: SSEEvent[] = [blockStartEvent(index, tool.block)];
+
+    const input = tool.json.join('');
+    let valid = true;
+    try {
+      JSON.parse(input || '{}');
+    } catch (e) {
+      valid = false;
+    }
+    if (valid) {
+      for (const event of tool.deltas) {
+        event.json.index = index;
+        events.push(event);
+      }
+    } else {
+      const repaired = repairJson(input, truncated);
+      if (repaired !== null) {
+        notes.push(truncated ? `${label}: completed truncated input JSON` : `${label}: removed extra text around input JSON`);
+        events.push(delta(index, repaired));
+      } else if (truncated) {
+        error(`${label}: unrepairable truncated input JSON replaced with {}`);
+        events.push(delta(index, '{}'));
+      } else {
+        // 不猜测缺失的内容,原样发出,由客户端报告工具调用错误
+        error(`${label}: invalid input JSON passed through unchanged`);
+        events.push(delta(index, input));
+      }
+    }
+
+    if (truncated) {
+      notes.push(`block ${index}: added missing content_block_stop`);
+    }
+    events.push(blockStopEvent(index));
+    return events;
+  };
+
+  // 关闭正在输出的块 (内容块依次输出,新块开始时上一个块必须结束)
+  const closeStreaming = (): SSEEvent[] => {
+    const events: SSEEvent[] = [];
+    for (const [upstreamIndex, index] of streaming) {
+      notes.push(`block ${index}: added missing content_block_stop`);
+      events.push(blockStopEvent(index));
+      streaming.delete(upstreamIndex);
+    }
+    return events;
+  };
+
+  const startStreaming = (upstreamIndex: number, block: any): SSEEvent => {
+    const index = nextIndex++;
+    if (index !== upstreamIndex) {
+      notes.push(`block ${index}: upstream index ${upstreamIndex} renumbered`);
+    }
+    streaming.set(upstreamIndex, index);
+    return blockStartEvent(index, block);
+  };
+
+  // 流结束: 关闭所有块,未结束的tool_use按截断处理
+  const closeAll = (): SSEEvent[] => {
+    const events = closeStreaming();
+    for (const upstreamIndex of Array.from(tools.keys())) {
+      events.push(...emitTool(upstreamIndex, true));
+    }
+    return events;
+  };
+
+  return {
+    process(event) {
+      const json = event.json;
+      switch (json?.type) {
+        case 'content_block_start': {
+          const events = closeStreaming();
+          // 重复使用仍未结束的tool_use的index: 上一个块没有结束事件,按截断处理
+          if (tools.has(json.index)) {
+            events.push(...emitTool(json.index, true));
+          }
+          if (json.content_block?.type === 'tool_use') {
+            tools.set(json.index, { block: json.content_block, json: [], deltas: [] });
+          } else {
+            events.push(startStreaming(json.index, json.content_block));
+          }
+          return events;
+        }
+        case 'content_block_delta': {
+          const tool = tools.get(json.index);
+          if (tool) {
+            if (json.delta?.type === 'input_json_delta') {
+              tool.json.push(json.delta.partial_json || '');
+            }
+            tool.deltas.push(event);
+            return [];
+          }
+          if (streaming.has(json.index)) {
+            json.index = streaming.get(json.index);
+            return [event];
+          }
+          // 缺少开始事件: 文本和thinking可以补发,其他增量无处归属
+          const type = json.delta?.type;
+          if (type !== 'text_delta' && type !== 'thinking_delta') {
+            error(`${type} for closed or unknown block index ${json.index} dropped (upstream data loss)`);
+            return [];
+          }
+          const events = closeStreaming();
+          const upstreamIndex = json.index;
+          events.push(startStreaming(upstreamIndex, type === 'text_delta' ? { type: 'text', text: '' } : { type: 'thinking', thinking: '' }));
+          notes.push(`block ${streaming.get(upstreamIndex)}: added missing content_block_start`);
+          json.index = streaming.get(upstreamIndex);
+          events.push(event);
+          return events;
+        }
+        case 'content_block_stop':
+          if (tools.has(json.index)) {
+            return emitTool(json.index, false);
+          }
+          if (streaming.has(json.index)) {
+            const index = streaming.get(json.index);
+            streaming.delete(json.index);
+            json.index = index;
+            return [event];
+          }
+          notes.push(`dropped duplicate content_block_stop for index ${json.index}`);
+          return [];
+        case 'message_delta':
+        case 'message_stop':
+          return [...closeAll(), event];
+        default:
+          return [event];
+      }
+    },
+    flush() {
+      return closeAll();
+    }
+  };
+};
+
+// 可在provider设置中启用的转换
+export const SSE_TRANSFORMS: Record<string, SSETransformFactory> = {
+  dropEmptyBlocks,
+  syncEventNames,
+  fixIndices,
+  injectUsage,
+  repairToolUse
+};
+
+/**
+ * SSE转换管线: 输入上游文本,输出转换后的SSE文本
+ */
+export class SSEPipeline {
+  readonly notes: string[] = [];
+  private parser = new SSEParser();
+  private transforms: SSETransform[];
+
+  // names: 设置中启用的转换; extra: 按请求追加在最后的转换
+  constructor(names: string[], extra: SSETransformFactory[] = []) {
+    this.transforms = [];
+    for (const name of names) {
+      const factory = SSE_TRANSFORMS[name];
+      if (factory) {
+        this.transforms.push(factory(this.notes));
+      } else {
+        console.warn(`Unknown stream transform: ${name}`);
+      }
+    }
+    for (const factory of extra) {
+      this.transforms.push(factory(this.notes));
+    }
+  }
+
+  push(text: string): string {
+    return this.run(this.parser.push(text), false);
+  }
+
+  end(): string {
+    return this.run(this.parser.end(), true);
+  }
+
+  private run(events: SSEEvent[], flush: boolean): string {
+    let current = events;
+    for (let i = 0; i < this.transforms.length; i++) {
+      const transform = this.transforms[i];
+      const next: SSEEvent[] = [];
+      for (const event of current) {
+        try {
+          next.push(...transform.process(event));
+        } catch (e) {
+          console.warn('Stream transform failed:', e);
+          next.push(event);
+        }
+      }
+      // 流结束时,前面转换补发的事件也要经过后面的转换
+      if (flush && transform.flush) {
+        next.push(...transform.flush());
+      }
+      current = next;
+    }
+    return current.map(serializeSSEEvent).join('');
+  }
+}
+
+/**
+ * 格式转换器共用的Anthropic SSE输出
+ * 同一时间最多打开一个text/thinking块,类型变化时关闭上一个;tool_use块一次性完整输出
+ */
+export class AnthropicStreamWriter {
+  private started = false;
+  private ended = false;
+  private blockIndex = -1;
+  private openBlock: 'text' | 'thinking' | null = null;
+
+  get finished(): boolean {
+    return this.ended;
+  }
+
+  // message_start,只输出一次
+  start(id: string, model: string): string {
+    if (this.started) {
+      return '';
+    }
+    this.started = true;
+    return sseEvent('message_start', {
+      type: 'message_start',
+      message: {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    });
+  }
+
+  // 追加text/thinking内容,需要时先打开对应类型的块
+  delta(type: 'text' | 'thinking', text: string): string {
+    let output = '';
+    if (this.openBlock !== type) {
+      output += this.closeBlock();
+      output += this.openNewBlock(type === 'thinking' ? { type: 'thinking', thinking: '', signature: '' } : { type: 'text', text: '' });
+      this.openBlock = type;
+    }
+    return output + sseEvent('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: type === 'thinking' ? { type: 'thinking_delta', thinking: text } : { type: 'text_delta', text }
+    });
+  }
+
+  // 输出完整的tool_use块,inputJson为参数的JSON文本
+  toolUse(id: string, name: string, inputJson: string): string {
+    let output = this.closeBlock();
+    output += this.openNewBlock({ type: 'tool_use', id, name, input: {} });
+    if (inputJson) {
+      output += sseEvent('content_block_delta', {
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'input_json_delta', partial_json: inputJson }
+      });
+    }
+    return output + sseEvent('content_block_stop', { type: 'content_block_stop', index: this.blockIndex });
+  }
+
+  closeBlock(): string {
+    if (this.openBlock === null) {
+      return '';
+    }
+    this.openBlock = null;
+    return sseEvent('content_block_stop', { type: 'content_block_stop', index: this.blockIndex });
+  }
+
+  // 结束消息: 关闭打开的块,输出message_delta和message_stop (调用前需已输出message_start)
+  finish(stopReason: string, usage: any): string {
+    if (this.ended) {
+      return '';
+    }
+    this.ended = true;
+    return this.closeBlock() +
+      sseEvent('message_delta', {
+        type: 'message_delta',
+        delta: { stop_reason: stopReason, stop_sequence: null },
+        usage
+      }) +
+      sseEvent('message_stop', { type: 'message_stop' });
+  }
+
+  // 上游返回错误: 输出error事件,之后不再输出结束事件
+  error(body: any): string {
+    this.ended = true;
+    return sseEvent('error', body);
+  }
+
+  private openNewBlock(contentBlock: any): string {
+    this.blockIndex++;
+    return sseEvent('content_block_start', {
+      type: 'content_block_start',
+      index: this.blockIndex,
+      content_block: contentBlock
+    });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 上游流式响应样本 (按实际接口返回的格式录制,每项为一个SSE data行)
+ */
+
+// OpenAI: 中文文本 + 用量
+export const OPENAI_TEXT = [
+  'data: {"id":"chatcmpl-9x1","object":"chat.completion.chunk","created":1760000000,"model":"gpt-4o-2024-08-06","choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x1","object":"chat.completion.chunk","created":1760000000,"model":"gpt-4o-2024-08-06","choices":[{"index":0,"delta":{"content":"你好,"},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x1","object":"chat.completion.chunk","created":1760000000,"model":"gpt-4o-2024-08-06","choices":[{"index":0,"delta":{"content":"世界🌏"},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x1","object":"chat.completion.chunk","created":1760000000,"model":"gpt-4o-2024-08-06","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}',
+  'data: {"id":"chatcmpl-9x1","object":"chat.completion.chunk","created":1760000000,"model":"gpt-4o-2024-08-06","choices":[],"usage":{"prompt_tokens":12,"completion_tokens":5,"total_tokens":17,"prompt_tokens_details":{"cached_tokens":2}}}',
+  'data: [DONE]'
+];
+
+// OpenAI: 两个并行工具调用,参数分块交错到达 (部分后端在后续分块中重复name)
+export const OPENAI_PARALLEL_TOOLS = [
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"role":"assistant","content":"查询两个城市"},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"call_a","type":"function","function":{"name":"get_weather","arguments":""}}]},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"id":"call_b","type":"function","function":{"name":"get_weather","arguments":""}}]},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"city\\":"}}]},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"function":{"name":"get_weather","arguments":"{\\"city\\":\\"上海\\"}"}}]},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"北京\\"}"}}]},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x2","object":"chat.completion.chunk","model":"deepseek-chat","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}],"usage":{"prompt_tokens":40,"completion_tokens":22,"total_tokens":62}}',
+  'data: [DONE]'
+];
+
+// OpenAI: 推理内容 (reasoning_content) 后跟正文
+export const OPENAI_REASONING = [
+  'data: {"id":"chatcmpl-9x3","object":"chat.completion.chunk","model":"deepseek-reasoner","choices":[{"index":0,"delta":{"role":"assistant","reasoning_content":"先想一想"},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x3","object":"chat.completion.chunk","model":"deepseek-reasoner","choices":[{"index":0,"delta":{"content":"答案是42"},"finish_reason":null}]}',
+  'data: {"id":"chatcmpl-9x3","object":"chat.completion.chunk","model":"deepseek-reasoner","choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}',
+  'data: [DONE]'
+];
+
+// Gemini: 思考摘要 + 中文文本
+export const GEMINI_TEXT = [
+  'data: {"candidates":[{"content":{"parts":[{"text":"分析问题","thought":true}],"role":"model"},"index":0}],"usageMetadata":{"promptTokenCount":9,"totalTokenCount":9},"modelVersion":"gemini-2.5-flash","responseId":"resp-g1"}',
+  'data: {"candidates":[{"content":{"parts":[{"text":"你好,"}],"role":"model"},"index":0}],"modelVersion":"gemini-2.5-flash","responseId":"resp-g1"}',
+  'data: {"candidates":[{"content":{"parts":[{"text":"世界🌏"}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":9,"candidatesTokenCount":4,"totalTokenCount":13},"modelVersion":"gemini-2.5-flash","responseId":"resp-g1"}'
+];
+
+// Gemini: 同一分块中的两个并行functionCall,第一个带thoughtSignature
+export const GEMINI_PARALLEL_TOOLS = [
+  'data: {"candidates":[{"content":{"parts":[{"text":"查询两个城市"}],"role":"model"},"index":0}],"modelVersion":"gemini-2.5-pro","responseId":"resp-g2"}',
+  'data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"get_weather","args":{"city":"北京"}},"thoughtSignature":"CiQB0e2Kb+/vRl9x"},{"functionCall":{"name":"get_weather","args":{"city":"上海"}}}],"role":"model"},"finishReason":"STOP","index":0}],"usageMetadata":{"promptTokenCount":30,"candidatesTokenCount":18,"totalTokenCount":48},"modelVersion":"gemini-2.5-pro","responseId":"resp-g2"}'
+];
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GeminiStreamTranslator, anthropicToGeminiRequest } from '../gemini';
+import { GEMINI_TEXT, GEMINI_PARALLEL_TOOLS } from './fixtures';
+import { sseText, splitBytes, translate, translateMessage } from './helpers';
+
+test('文本流转换为Anthropic事件序列', () => {
+  const events = translate(new GeminiStreamTranslator('claude-sonnet-4'), [sseText(GEMINI_TEXT)]);
+  assert.equal(events[0].type, 'message_start');
+  assert.equal(events[0].message.model, 'gemini-2.5-flash');
+  const last = events[events.length - 2];
+  assert.equal(last.type, 'message_delta');
+  assert.equal(last.delta.stop_reason, 'end_turn');
+  assert.equal(last.usage.output_tokens, 4);
+});
+
+test('多字节字符被切分在不同分块中', () => {
+  for (const size of [1, 2, 3, 5, 7]) {
+    const message = translateMessage(new GeminiStreamTranslator('claude-sonnet-4'), splitBytes(sseText(GEMINI_TEXT), size));
+    assert.deepEqual(message.content, [{ type: 'text', text: '你好,世界🌏' }], `分块大小 ${size}`);
+  }
+});
+
+test('thought部分仅在开启时转换为thinking块', () => {
+  const message = translateMessage(new GeminiStreamTranslator('claude-sonnet-4', true), [sseText(GEMINI_TEXT)]);
+  assert.deepEqual(message.content.map((block: any) => block.type), ['thinking', 'text']);
+  assert.equal(message.content[0].thinking, '分析问题');
+});
+
+test('并行functionCall各输出一个tool_use块', () => {
+  const message = translateMessage(new GeminiStreamTranslator('claude-sonnet-4'), splitBytes(sseText(GEMINI_PARALLEL_TOOLS), 11));
+  assert.deepEqual(message.content.map((block: any) => block.type), ['text', 'tool_use', 'tool_use']);
+  assert.deepEqual(message.content[1].input, { city: '北京' });
+  assert.deepEqual(message.content[2].input, { city: '上海' });
+  assert.notEqual(message.content[1].id, message.content[2].id);
+  assert.equal(message.stop_reason, 'tool_use');
+});
+
+test('thoughtSignature经tool_use id带回下一轮请求', () => {
+  const message = translateMessage(new GeminiStreamTranslator('claude-sonnet-4'), [sseText(GEMINI_PARALLEL_TOOLS)]);
+  const [, signed, unsigned] = message.content;
+  const request = anthropicToGeminiRequest({
+    model: 'gemini-2.5-pro',
+    messages: [
+      { role: 'user', content: '北京和上海的天气' },
+      { role: 'assistant', content: message.content },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: signed.id, content: '晴' },
+          { type: 'tool_result', tool_use_id: unsigned.id, content: '多云' }
+        ]
+      }
+    ]
+  });
+  const calls = request.contents[1].parts.filter((part: any) => part.functionCall);
+  assert.equal(calls.length, 2);
+  assert.equal(calls[0].thoughtSignature, 'CiQB0e2Kb+/vRl9x');
+  assert.equal(calls[1].thoughtSignature, undefined);
+});
@@ -0,0 +1,42 @@
+/**
+ * 测试工具: 按任意字节位置切分上游数据,解析转换后的Anthropic SSE输出
+ */
+
+import { StreamTranslator, assembleStreamMessage } from '../anthropic';
+import { SSEParser } from '../sse';
+
+// 把fixture行拼成SSE文本 (每个事件后跟空行)
+export function sseText(lines: string[]): string {
+  return lines.map(line => `${line}\n\n`).join('');
+}
+
+// 按固定字节数切分,模拟网络分块 (可能切在多字节字符中间)
+export function splitBytes(text: string, size: number): Uint8Array[] {
+  const bytes = Buffer.from(text, 'utf8');
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(new Uint8Array(bytes.subarray(i, i + size)));
+  }
+  return chunks;
+}
+
+// 解析SSE文本,返回事件data的JSON数组
+export function parseEvents(text: string): any[] {
+  const parser = new SSEParser();
+  return [...parser.push(text), ...parser.end()].map(event => JSON.parse(event.data));
+}
+
+// 输入全部分块后结束流,返回输出的事件
+export function translate(translator: StreamTranslator, chunks: (Uint8Array | string)[]): any[] {
+  let output = '';
+  for (const chunk of chunks) {
+    output += translator.push(chunk);
+  }
+  output += translator.end();
+  return parseEvents(output);
+}
+
+// 转换后重组为完整message
+export function translateMessage(translator: StreamTranslator, chunks: (Uint8Array | string)[]): any {
+  return assembleStreamMessage(translate(translator, chunks));
+}
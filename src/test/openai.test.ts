@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OpenAIStreamTranslator } from '../openai';
+import { OPENAI_TEXT, OPENAI_PARALLEL_TOOLS, OPENAI_REASONING } from './fixtures';
+import { sseText, splitBytes, translate, translateMessage } from './helpers';
+
+test('文本流转换为Anthropic事件序列', () => {
+  const events = translate(new OpenAIStreamTranslator('claude-sonnet-4'), [sseText(OPENAI_TEXT)]);
+  assert.deepEqual(events.map(event => event.type), [
+    'message_start',
+    'content_block_start',
+    'content_block_delta',
+    'content_block_delta',
+    'content_block_stop',
+    'message_delta',
+    'message_stop'
+  ]);
+  assert.equal(events[0].message.id, 'msg_9x1');
+  assert.equal(events[0].message.model, 'gpt-4o-2024-08-06');
+  assert.equal(events[5].delta.stop_reason, 'end_turn');
+  assert.deepEqual(events[5].usage, { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 2 });
+});
+
+test('多字节字符被切分在不同分块中', () => {
+  for (const size of [1, 2, 3, 5, 7]) {
+    const message = translateMessage(new OpenAIStreamTranslator('claude-sonnet-4'), splitBytes(sseText(OPENAI_TEXT), size));
+    assert.deepEqual(message.content, [{ type: 'text', text: '你好,世界🌏' }], `分块大小 ${size}`);
+  }
+});
+
+test('交错到达的并行工具调用按index各输出一个完整的tool_use块', () => {
+  const message = translateMessage(new OpenAIStreamTranslator('claude-sonnet-4'), splitBytes(sseText(OPENAI_PARALLEL_TOOLS), 13));
+  assert.deepEqual(message.content, [
+    { type: 'text', text: '查询两个城市' },
+    { type: 'tool_use', id: 'call_a', name: 'get_weather', input: { city: '北京' } },
+    { type: 'tool_use', id: 'call_b', name: 'get_weather', input: { city: '上海' } }
+  ]);
+  assert.equal(message.stop_reason, 'tool_use');
+});
+
+test('每个内容块都有配对的start/stop且index连续', () => {
+  const events = translate(new OpenAIStreamTranslator('claude-sonnet-4'), [sseText(OPENAI_PARALLEL_TOOLS)]);
+  const starts = events.filter(event => event.type === 'content_block_start').map(event => event.index);
+  const stops = events.filter(event => event.type === 'content_block_stop').map(event => event.index);
+  assert.deepEqual(starts, [0, 1, 2]);
+  assert.deepEqual(stops, [0, 1, 2]);
+});
+
+test('推理内容仅在开启时转换为thinking块', () => {
+  const withReasoning = translateMessage(new OpenAIStreamTranslator('claude-sonnet-4', true), [sseText(OPENAI_REASONING)]);
+  assert.deepEqual(withReasoning.content.map((block: any) => block.type), ['thinking', 'text']);
+  assert.equal(withReasoning.content[0].thinking, '先想一想');
+
+  const withoutReasoning = translateMessage(new OpenAIStreamTranslator('claude-sonnet-4'), [sseText(OPENAI_REASONING)]);
+  assert.deepEqual(withoutReasoning.content, [{ type: 'text', text: '答案是42' }]);
+});
+
+test('没有[DONE]时结束流也补齐结束事件', () => {
+  const events = translate(new OpenAIStreamTranslator('claude-sonnet-4'), [sseText(OPENAI_TEXT.slice(0, 3))]);
+  assert.deepEqual(events.slice(-2).map(event => event.type), ['message_delta', 'message_stop']);
+});
+
+test('上游错误转换为error事件', () => {
+  const events = translate(new OpenAIStreamTranslator('claude-sonnet-4'), ['data: {"error":{"message":"rate limited"}}\n\n']);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].type, 'error');
+  assert.equal(events[0].error.message, 'rate limited');
+});
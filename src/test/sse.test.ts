@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { sseEvent, assembleStreamMessage } from '../anthropic';
+import { SSEParser, SSEPipeline, repairJson } from '../sse';
+import { parseEvents } from './helpers';
+
+function events(list: any[]): string {
+  return list.map(data => sseEvent(data.type, data)).join('');
+}
+
+const start = { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', model: 'glm-4.6', content: [], usage: { input_tokens: 1, output_tokens: 0 } } };
+const end = [
+  { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 9 } },
+  { type: 'message_stop' }
+];
+
+function toolStart(index: number, id: string) {
+  return { type: 'content_block_start', index, content_block: { type: 'tool_use', id, name: 'read_file', input: {} } };
+}
+
+function jsonDelta(index: number, partial: string) {
+  return { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: partial } };
+}
+
+function repair(text: string): { events: any[]; notes: string[] } {
+  const pipeline = new SSEPipeline(['repairToolUse']);
+  let output = '';
+  // 按任意位置切分,事件跨多次push
+  for (let i = 0; i < text.length; i += 17) {
+    output += pipeline.push(text.substring(i, i + 17));
+  }
+  output += pipeline.end();
+  return { events: parseEvents(output), notes: pipeline.notes };
+}
+
+test('SSEParser处理跨分块的\\r\\n和没有空行结尾的最后一个事件', () => {
+  const parser = new SSEParser();
+  const parsed = [
+    ...parser.push('event: ping\r'),
+    ...parser.push('\ndata: {"type":"ping"}\r\n\r\n'),
+    ...parser.push('data: {"type":"message_stop"}')
+  ];
+  parsed.push(...parser.end());
+  assert.deepEqual(parsed.map(event => event.event), ['ping', undefined]);
+  assert.deepEqual(parsed.map(event => JSON.parse(event.data).type), ['ping', 'message_stop']);
+});
+
+test('repairJson只在截断时补全括号', () => {
+  assert.equal(repairJson('{"path":"a.ts","lines":[1,2'), '{"path":"a.ts","lines":[1,2]}');
+  assert.equal(repairJson('{"path":"a.ts","lines":[1,2', false), null);
+  assert.equal(repairJson('{"path":"a.ts"}</tool_call>', false), '{"path":"a.ts"}');
+  assert.equal(repairJson('{"path":', true), '{"path":null}');
+});
+
+test('交错的tool_use块各自缓冲,结束时按顺序完整输出', () => {
+  const { events: output, notes } = repair(events([
+    start,
+    toolStart(0, 'toolu_a'),
+    toolStart(1, 'toolu_b'),
+    jsonDelta(0, '{"path":'),
+    jsonDelta(1, '{"path":"b.ts"}'),
+    jsonDelta(0, '"a.ts"}'),
+    { type: 'content_block_stop', index: 1 },
+    { type: 'content_block_stop', index: 0 },
+    ...end
+  ]));
+  const message = assembleStreamMessage(output);
+  assert.deepEqual(message.content.map((block: any) => [block.id, block.input]), [
+    ['toolu_b', { path: 'b.ts' }],
+    ['toolu_a', { path: 'a.ts' }]
+  ]);
+  assert.ok(notes.every(note => !note.startsWith('error:')));
+});
+
+test('流被截断时补全tool_use的JSON和结束事件', () => {
+  const { events: output, notes } = repair(events([
+    start,
+    toolStart(0, 'toolu_a'),
+    jsonDelta(0, '{"path":"a.ts","lines":[1,2')
+  ]));
+  const message = assembleStreamMessage(output);
+  assert.deepEqual(message.content[0].input, { path: 'a.ts', lines: [1, 2] });
+  assert.ok(notes.includes('block 0 (tool_use read_file): completed truncated input JSON'));
+  assert.ok(notes.includes('block 0: added missing content_block_stop'));
+});
+
+test('正常结束但JSON不完整时原样发出并记录错误', t => {
+  t.mock.method(console, 'error', () => {});
+  const { events: output, notes } = repair(events([
+    start,
+    toolStart(0, 'toolu_a'),
+    jsonDelta(0, '{"path":"a.ts"'),
+    { type: 'content_block_stop', index: 0 },
+    ...end
+  ]));
+  const message = assembleStreamMessage(output);
+  assert.equal(message.content[0].input, '{"path":"a.ts"');
+  assert.ok(notes.some(note => note.startsWith('error:') && note.includes('passed through unchanged')));
+});
+
+test('已结束块的input_json_delta作为上游数据丢失记录错误', t => {
+  t.mock.method(console, 'error', () => {});
+  const { events: output, notes } = repair(events([
+    start,
+    toolStart(0, 'toolu_a'),
+    jsonDelta(0, '{"path":"a.ts"}'),
+    { type: 'content_block_stop', index: 0 },
+    jsonDelta(0, '{"extra":1}'),
+    ...end
+  ]));
+  assert.equal(output.filter(event => event.type === 'content_block_delta').length, 1);
+  assert.ok(notes.some(note => note.startsWith('error: input_json_delta for closed or unknown block index 0')));
+});
@@ -0,0 +1,131 @@
+/**
+ * 上游请求的中止控制
+ * 客户端断开连接或各阶段超时 (连接、首字节、流空闲) 时中止上游fetch和响应体读取
+ */
+
+export interface TimeoutSettings {
+  connectMs?: number;  // 发出请求到收到响应头
+  firstByteMs?: number;  // 收到响应头到第一块响应数据 (非流式请求的响应头在生成完成后才返回,也使用此值)
+  idleMs?: number;  // 两块响应数据之间的最长间隔
+}
+
+export type TimeoutPhase = 'connect' | 'firstByte' | 'idle';
+
+// 0 表示不限制
+export const DEFAULT_TIMEOUTS: Required<TimeoutSettings> = {
+  connectMs: 30000,
+  firstByteMs: 300000,
+  idleMs: 180000
+};
+
+const PHASE_LABELS: Record<TimeoutPhase, string> = {
+  connect: 'connect',
+  firstByte: 'first byte',
+  idle: 'stream idle'
+};
+
+export class UpstreamTimeoutError extends Error {
+  constructor(readonly phase: TimeoutPhase, readonly ms: number) {
+    super(`Upstream ${PHASE_LABELS[phase]} timeout after ${ms}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+export class ClientAbortError extends Error {
+  constructor() {
+    super('Client closed the connection');
+    this.name = 'ClientAbortError';
+  }
+}
+
+/**
+ * 单次上游请求的中止控制
+ * parent: 客户端断开时中止的signal
+ */
+export class UpstreamGuard {
+  private readonly controller = new AbortController();
+  private timer: NodeJS.Timeout | undefined;
+  private readonly onParentAbort = () => this.abort(this.parent?.reason);
+
+  constructor(
+    private readonly timeouts: Required<TimeoutSettings>,
+    private readonly stream: boolean,
+    private readonly parent?: AbortSignal
+  ) {
+    if (parent?.aborted) {
+      this.abort(parent.reason);
+    } else {
+      parent?.addEventListener('abort', this.onParentAbort);
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  // 发出请求前: 等待响应头
+  start(): void {
+    if (this.stream) {
+      this.arm('connect', this.timeouts.connectMs);
+    } else {
+      this.arm('firstByte', this.timeouts.firstByteMs);
+    }
+  }
+
+  // 收到响应头后: 等待第一块数据
+  headersReceived(): void {
+    if (this.stream) {
+      this.arm('firstByte', this.timeouts.firstByteMs);
+    } else {
+      this.arm('idle', this.timeouts.idleMs);
+    }
+  }
+
+  // 重试等待期间不计时
+  pause(): void {
+    this.clearTimer();
+  }
+
+  // 读取一块响应数据,每收到一块重新计算空闲超时
+  async read(reader: ReadableStreamDefaultReader<Uint8Array>): ReturnType<ReadableStreamDefaultReader<Uint8Array>['read']> {
+    const result = await reader.read();
+    if (!result.done) {
+      this.arm('idle', this.timeouts.idleMs);
+    }
+    return result;
+  }
+
+  // 请求结束,清理定时器
+  dispose(): void {
+    this.clearTimer();
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  /**
+   * 将fetch/读取抛出的错误还原为中止原因 (超时或客户端断开),其他错误原样返回
+   */
+  resolveError(error: any): any {
+    return this.controller.signal.aborted ? this.controller.signal.reason : error;
+  }
+
+  private abort(reason: any): void {
+    this.clearTimer();
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(reason);
+    }
+  }
+
+  private arm(phase: TimeoutPhase, ms: number): void {
+    this.clearTimer();
+    if (ms > 0) {
+      this.timer = setTimeout(() => this.abort(new UpstreamTimeoutError(phase, ms)), ms);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
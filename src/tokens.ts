@@ -0,0 +1,185 @@
+/**
+ * 本地token估算 (用于模拟 /v1/messages/count_tokens)
+ * 文本按类似BPE的预分词规则切分后估算,图片按尺寸计算,PDF按页数计算
+ */
+
+// 预分词: 英文缩写、字母串、数字(每3位一组)、连续符号、空白
+const PRETOKENIZE = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// 中日韩字符,每个字约1个token
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/gu;
+
+// 每条消息的角色标记等开销
+const MESSAGE_OVERHEAD = 4;
+
+// 带tools时服务端追加的工具使用说明 (tool_choice为auto/none时较长)
+const TOOLS_SYSTEM_TOKENS_AUTO = 346;
+const TOOLS_SYSTEM_TOKENS_FORCED = 313;
+
+// 无法取得尺寸的图片、无法统计页数的PDF页
+const DEFAULT_IMAGE_TOKENS = 1600;
+const PDF_PAGE_TOKENS = 2000;
+
+// 图片长边超过此值时服务端会缩小
+const IMAGE_MAX_EDGE = 1568;
+const IMAGE_MAX_PIXELS = 1_150_000;
+
+/**
+ * 估算文本的token数
+ */
+export function countTextTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(PRETOKENIZE)) {
+    const piece = match[0].trim();
+    if (!piece) {
+      tokens++;
+      continue;
+    }
+    const cjk = piece.match(CJK_CHAR)?.length || 0;
+    const rest = piece.length - cjk;
+    if (/^\p{N}+$/u.test(piece)) {
+      tokens++;
+    } else if (/^[^\p{L}\p{N}]+$/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 2);
+    } else {
+      tokens += cjk + (rest > 0 ? Math.max(1, Math.round(rest / 4.5)) : 0);
+    }
+  }
+  return tokens;
+}
+
+// 从图片文件头读取尺寸 (PNG/GIF/JPEG/WebP)
+function imageSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 10 && data.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8X') {
+      return { width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+    }
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    return null;
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // 查找SOF段
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+function imageTokens(source: any): number {
+  if (source?.type !== 'base64' || typeof source.data !== 'string') {
+    return DEFAULT_IMAGE_TOKENS;
+  }
+  // 只解码文件头部分 (JPEG的EXIF段可能较大)
+  const size = imageSize(Buffer.from(source.data.substring(0, 174764), 'base64'));
+  if (!size || size.width <= 0 || size.height <= 0) {
+    return DEFAULT_IMAGE_TOKENS;
+  }
+  const scale = Math.min(
+    1,
+    IMAGE_MAX_EDGE / Math.max(size.width, size.height),
+    Math.sqrt(IMAGE_MAX_PIXELS / (size.width * size.height))
+  );
+  return Math.ceil((size.width * scale) * (size.height * scale) / 750);
+}
+
+function documentTokens(block: any): number {
+  const source = block.source || {};
+  let tokens = countTextTokens(`${block.title || ''} ${block.context || ''}`);
+  if (source.type === 'text' && typeof source.data === 'string') {
+    tokens += countTextTokens(source.data);
+  } else if (source.type === 'content') {
+    tokens += contentTokens(source.content);
+  } else if (source.type === 'base64' && typeof source.data === 'string') {
+    // 按页对象数估算页数,对象流压缩的PDF取不到时按大小估算
+    const pdf = Buffer.from(source.data, 'base64').toString('latin1');
+    const pages = pdf.match(/\/Type\s*\/Page(?!s)/g)?.length || Math.max(1, Math.round(pdf.length / 100_000));
+    tokens += pages * PDF_PAGE_TOKENS;
+  } else {
+    tokens += PDF_PAGE_TOKENS;
+  }
+  return tokens;
+}
+
+// 消息content (字符串或内容块数组)
+function contentTokens(content: any): number {
+  if (typeof content === 'string') {
+    return countTextTokens(content);
+  }
+  if (!Array.isArray(content)) {
+    return 0;
+  }
+  let tokens = 0;
+  for (const block of content) {
+    switch (block?.type) {
+      case 'text':
+        tokens += countTextTokens(block.text || '');
+        break;
+      case 'image':
+        tokens += imageTokens(block.source);
+        break;
+      case 'document':
+        tokens += documentTokens(block);
+        break;
+      case 'tool_use':
+        tokens += countTextTokens(`${block.name} ${JSON.stringify(block.input ?? {})}`);
+        break;
+      case 'tool_result':
+        tokens += contentTokens(block.content);
+        break;
+      case 'thinking':
+      case 'redacted_thinking':
+        // 之前轮次的thinking不计入上下文
+        break;
+      default:
+        tokens += countTextTokens(JSON.stringify(block ?? ''));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 估算请求的输入token数 (与count_tokens接口的返回值对应)
+ */
+export function countRequestTokens(body: any): number {
+  let tokens = 0;
+
+  if (typeof body?.system === 'string') {
+    tokens += countTextTokens(body.system);
+  } else if (Array.isArray(body?.system)) {
+    tokens += contentTokens(body.system);
+  }
+
+  for (const message of body?.messages || []) {
+    tokens += MESSAGE_OVERHEAD + contentTokens(message?.content);
+  }
+
+  const tools = Array.isArray(body?.tools) ? body.tools : [];
+  if (tools.length > 0) {
+    const forced = body?.tool_choice?.type === 'any' || body?.tool_choice?.type === 'tool';
+    tokens += forced ? TOOLS_SYSTEM_TOKENS_FORCED : TOOLS_SYSTEM_TOKENS_AUTO;
+    for (const tool of tools) {
+      tokens += countTextTokens(JSON.stringify(tool));
+    }
+  }
+
+  return tokens;
+}
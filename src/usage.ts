@@ -0,0 +1,151 @@
+/**
+ * Token用量记录与费用计算
+ * 每个请求的用量追加到 ~/.claude/proxy/usage/<年-月>.jsonl,费用在统计时按当前价格表计算
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { assembleStreamMessage } from './anthropic';
+import { matchPattern } from './routing';
+
+export interface UsageRecord {
+  timestamp: string;
+  workspace: string;
+  provider: string;
+  model: string;  // 实际使用的模型
+  requestModel: string;  // 客户端请求的模型
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+// 价格 (美元/百万token)
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+// 获取用量目录路径
+export function getUsageDir(): string {
+  return path.join(os.homedir(), '.claude', 'proxy', 'usage');
+}
+
+// 当前窗口的工作区名
+export function getWorkspaceName(): string {
+  return vscode.workspace.name || vscode.workspace.workspaceFolders?.[0]?.name || '(无工作区)';
+}
+
+/**
+ * 从响应中提取usage (非流式响应体,或流式响应的SSE事件)
+ */
+export function extractUsage(responseBody: any): any | null {
+  if (!responseBody || typeof responseBody !== 'object') {
+    return null;
+  }
+  if (responseBody.isStreaming && Array.isArray(responseBody.chunks)) {
+    return assembleStreamMessage(responseBody.chunks).usage || null;
+  }
+  return responseBody.type === 'message' ? responseBody.usage || null : null;
+}
+
+/**
+ * 追加一条用量记录
+ */
+export function recordUsage(record: UsageRecord): void {
+  try {
+    const dir = getUsageDir();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const file = path.join(dir, `${record.timestamp.substring(0, 7)}.jsonl`);
+    fs.appendFileSync(file, JSON.stringify(record) + '\n', 'utf8');
+  } catch (e) {
+    console.warn('保存用量记录失败:', e);
+  }
+}
+
+/**
+ * 读取指定时间之后的用量记录
+ */
+export function readUsageRecords(since: Date): UsageRecord[] {
+  const dir = getUsageDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const sinceMonth = since.toISOString().substring(0, 7);
+  const sinceTime = since.toISOString();
+  const records: UsageRecord[] = [];
+
+  for (const name of fs.readdirSync(dir).sort()) {
+    const match = name.match(/^(\d{4}-\d{2})\.jsonl$/);
+    if (!match || match[1] < sinceMonth) {
+      continue;
+    }
+    try {
+      for (const line of fs.readFileSync(path.join(dir, name), 'utf8').split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        const record = JSON.parse(line);
+        if (record.timestamp >= sinceTime) {
+          records.push(record);
+        }
+      }
+    } catch (e) {
+      console.warn(`读取用量记录失败: ${name}`, e);
+    }
+  }
+
+  return records;
+}
+
+// 透传请求发往Anthropic官方API,用量和预算计入anthropic
+export function usageProvider(provider: string): string {
+  return provider === 'pass' ? 'anthropic' : provider;
+}
+
+/**
+ * 查找模型价格: 依次匹配 provider:model、model,键支持glob
+ */
+export function getModelPrice(prices: Record<string, ModelPrice>, provider: string, model: string): ModelPrice | undefined {
+  const qualified = `${provider}:${model}`;
+  if (prices[qualified]) {
+    return prices[qualified];
+  }
+  if (prices[model]) {
+    return prices[model];
+  }
+  const key = Object.keys(prices).find(pattern =>
+    pattern.includes(':') ? matchPattern(pattern, qualified) : matchPattern(pattern, model));
+  return key ? prices[key] : undefined;
+}
+
+/**
+ * 计算一条记录的费用 (美元),没有价格时返回null
+ * 缓存价格未配置时按输入价格计
+ */
+export function calculateCost(record: UsageRecord, prices: Record<string, ModelPrice>): number | null {
+  const price = getModelPrice(prices, record.provider, record.model);
+  return price ? costWithPrice(record, price) : null;
+}
+
+// 按已查到的价格计算一条记录的费用 (美元)
+export function costWithPrice(record: UsageRecord, price: ModelPrice): number {
+  return (
+    record.inputTokens * price.input +
+    record.outputTokens * price.output +
+    record.cacheReadTokens * (price.cacheRead ?? price.input) +
+    record.cacheWriteTokens * (price.cacheWrite ?? price.input)
+  ) / 1_000_000;
+}
+
+// 读取价格表设置
+export function getPriceTable(): Record<string, ModelPrice> {
+  return vscode.workspace.getConfiguration('claudeProxy').get<Record<string, ModelPrice>>('pricing', {});
+}
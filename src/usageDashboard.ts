@@ -0,0 +1,329 @@
+/**
+ * 用量统计面板 (Webview)
+ * 按天/周汇总各provider、模型、工作区的token用量和费用
+ */
+
+import * as vscode from 'vscode';
+import { UsageRecord, readUsageRecords, calculateCost, getPriceTable } from './usage';
+import { getNonce } from './webview';
+
+// 统计的最长天数
+const MAX_DAYS = 90;
+
+// 按 日期+provider+模型+工作区 汇总的一行
+interface DailyUsage {
+  date: string;
+  provider: string;
+  model: string;
+  workspace: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  unpriced: number;  // 没有价格的请求数
+}
+
+let panel: vscode.WebviewPanel | null = null;
+
+// 本地日期 YYYY-MM-DD
+function localDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function aggregate(records: UsageRecord[]): DailyUsage[] {
+  const prices = getPriceTable();
+  const rows = new Map<string, DailyUsage>();
+
+  for (const record of records) {
+    const date = localDate(record.timestamp);
+    const key = [date, record.provider, record.model, record.workspace].join('\n');
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        date,
+        provider: record.provider,
+        model: record.model,
+        workspace: record.workspace,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        cost: 0,
+        unpriced: 0
+      };
+      rows.set(key, row);
+    }
+    const cost = calculateCost(record, prices);
+    row.requests++;
+    row.inputTokens += record.inputTokens;
+    row.outputTokens += record.outputTokens;
+    row.cacheReadTokens += record.cacheReadTokens;
+    row.cacheWriteTokens += record.cacheWriteTokens;
+    if (cost === null) {
+      row.unpriced++;
+    } else {
+      row.cost += cost;
+    }
+  }
+
+  return Array.from(rows.values());
+}
+
+function postUsage(): void {
+  if (!panel) {
+    return;
+  }
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (MAX_DAYS - 1));
+  panel.webview.postMessage({
+    type: 'usage',
+    today: localDate(new Date().toISOString()),
+    rows: aggregate(readUsageRecords(since))
+  });
+}
+
+/**
+ * 打开用量统计面板 (已打开时切换到前台并刷新)
+ */
+export function openUsageDashboard(context: vscode.ExtensionContext): void {
+  if (panel) {
+    panel.reveal();
+    postUsage();
+    return;
+  }
+
+  panel = vscode.window.createWebviewPanel(
+    'claudeProxyUsageDashboard',
+    'Claude Proxy 用量统计',
+    vscode.ViewColumn.Active,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+  panel.webview.html = getHtml();
+
+  panel.webview.onDidReceiveMessage(message => {
+    if (message?.type === 'refresh') {
+      postUsage();
+    }
+  }, undefined, context.subscriptions);
+
+  panel.onDidDispose(() => {
+    panel = null;
+  }, undefined, context.subscriptions);
+}
+
+function getHtml(): string {
+  const nonce = getNonce();
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 12px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; padding: 8px 0; }
+  select, button { font: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+  button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+  .cards { display: flex; gap: 12px; margin: 8px 0 16px; }
+  .card { padding: 8px 12px; background: var(--vscode-textCodeBlock-background); min-width: 140px; }
+  .card .value { font-size: 1.6em; font-weight: bold; }
+  .card .label { color: var(--vscode-descriptionForeground); }
+  h3 { margin: 16px 0 6px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--vscode-panel-border); white-space: nowrap; }
+  .num { text-align: right; }
+  .bar { display: inline-block; height: 8px; background: var(--vscode-charts-blue); vertical-align: middle; }
+  .hint { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <select id="range">
+    <option value="1">今天</option>
+    <option value="7" selected>最近7天</option>
+    <option value="30">最近30天</option>
+    <option value="90">最近90天</option>
+  </select>
+  <select id="bucket">
+    <option value="day">按天</option>
+    <option value="week">按周</option>
+  </select>
+  <select id="group">
+    <option value="provider">按Provider</option>
+    <option value="model">按模型</option>
+    <option value="workspace">按工作区</option>
+  </select>
+  <button id="refresh">刷新</button>
+</div>
+<div class="cards" id="cards"></div>
+<h3 id="totalTitle"></h3>
+<table>
+  <thead><tr><th id="groupHeader"></th><th class="num">请求</th><th class="num">输入</th><th class="num">输出</th><th class="num">缓存读取</th><th class="num">缓存写入</th><th class="num">费用</th><th></th></tr></thead>
+  <tbody id="totals"></tbody>
+</table>
+<h3 id="periodTitle"></h3>
+<table>
+  <thead><tr><th id="bucketHeader"></th><th id="groupHeader2"></th><th class="num">请求</th><th class="num">输入</th><th class="num">输出</th><th class="num">费用</th></tr></thead>
+  <tbody id="periods"></tbody>
+</table>
+<p class="hint" id="unpriced"></p>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  let rows = [];
+  let today = '';
+
+  const $ = id => document.getElementById(id);
+
+  function el(tag, attrs, text) {
+    const node = document.createElement(tag);
+    Object.assign(node, attrs || {});
+    if (text !== undefined && text !== null) {
+      node.textContent = String(text);
+    }
+    return node;
+  }
+
+  function parseDate(date) {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(y, m - 1, d);
+  }
+
+  function formatDate(date) {
+    const pad = value => String(value).padStart(2, '0');
+    return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+  }
+
+  // 周一所在的日期
+  function weekStart(date) {
+    const d = parseDate(date);
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+    return formatDate(d);
+  }
+
+  function daysBefore(days) {
+    const d = parseDate(today);
+    d.setDate(d.getDate() - (days - 1));
+    return formatDate(d);
+  }
+
+  const tokens = value => value >= 1000000 ? (value / 1000000).toFixed(2) + 'M' : value >= 1000 ? (value / 1000).toFixed(1) + 'K' : String(value);
+  const money = value => '$' + value.toFixed(value < 1 ? 4 : 2);
+
+  function sum(items) {
+    const total = { requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0, unpriced: 0 };
+    for (const item of items) {
+      for (const key of Object.keys(total)) {
+        total[key] += item[key];
+      }
+    }
+    return total;
+  }
+
+  function groupBy(items, keyOf) {
+    const groups = new Map();
+    for (const item of items) {
+      const key = keyOf(item);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(item);
+    }
+    return groups;
+  }
+
+  function card(label, value) {
+    const node = el('div', { className: 'card' });
+    node.appendChild(el('div', { className: 'value' }, value));
+    node.appendChild(el('div', { className: 'label' }, label));
+    return node;
+  }
+
+  function render() {
+    const range = Number($('range').value);
+    const bucket = $('bucket').value;
+    const group = $('group').value;
+    const groupLabel = $('group').selectedOptions[0].textContent.replace('按', '');
+    const visible = rows.filter(row => row.date >= daysBefore(range));
+
+    const cards = $('cards');
+    cards.textContent = '';
+    cards.appendChild(card('今天', money(sum(rows.filter(row => row.date === today)).cost)));
+    cards.appendChild(card('最近7天', money(sum(rows.filter(row => row.date >= daysBefore(7))).cost)));
+    cards.appendChild(card('最近30天', money(sum(rows.filter(row => row.date >= daysBefore(30))).cost)));
+
+    // 汇总: 按所选维度
+    $('totalTitle').textContent = $('range').selectedOptions[0].textContent + ' 合计';
+    $('groupHeader').textContent = groupLabel;
+    const totals = Array.from(groupBy(visible, row => row[group]).entries())
+      .map(([key, items]) => ({ key, ...sum(items) }))
+      .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+    const maxCost = Math.max(...totals.map(total => total.cost), 0);
+    const totalBody = $('totals');
+    totalBody.textContent = '';
+    for (const total of totals) {
+      const tr = el('tr');
+      tr.appendChild(el('td', {}, total.key));
+      tr.appendChild(el('td', { className: 'num' }, total.requests));
+      tr.appendChild(el('td', { className: 'num' }, tokens(total.inputTokens)));
+      tr.appendChild(el('td', { className: 'num' }, tokens(total.outputTokens)));
+      tr.appendChild(el('td', { className: 'num' }, tokens(total.cacheReadTokens)));
+      tr.appendChild(el('td', { className: 'num' }, tokens(total.cacheWriteTokens)));
+      tr.appendChild(el('td', { className: 'num' }, money(total.cost)));
+      const barCell = el('td');
+      const bar = el('span', { className: 'bar' });
+      bar.style.width = (maxCost > 0 ? Math.round(total.cost / maxCost * 120) : 0) + 'px';
+      barCell.appendChild(bar);
+      tr.appendChild(barCell);
+      totalBody.appendChild(tr);
+    }
+
+    // 明细: 按天/周 + 所选维度
+    $('periodTitle').textContent = bucket === 'day' ? '每日明细' : '每周明细 (周一起)';
+    $('bucketHeader').textContent = bucket === 'day' ? '日期' : '周';
+    $('groupHeader2').textContent = groupLabel;
+    const periodBody = $('periods');
+    periodBody.textContent = '';
+    const periods = groupBy(visible, row => bucket === 'day' ? row.date : weekStart(row.date));
+    for (const period of Array.from(periods.keys()).sort().reverse()) {
+      const items = Array.from(groupBy(periods.get(period), row => row[group]).entries())
+        .map(([key, groupItems]) => ({ key, ...sum(groupItems) }))
+        .sort((a, b) => b.cost - a.cost);
+      for (const item of items) {
+        const tr = el('tr');
+        tr.appendChild(el('td', {}, period));
+        tr.appendChild(el('td', {}, item.key));
+        tr.appendChild(el('td', { className: 'num' }, item.requests));
+        tr.appendChild(el('td', { className: 'num' }, tokens(item.inputTokens)));
+        tr.appendChild(el('td', { className: 'num' }, tokens(item.outputTokens)));
+        tr.appendChild(el('td', { className: 'num' }, money(item.cost)));
+        periodBody.appendChild(tr);
+      }
+    }
+
+    const unpriced = sum(visible).unpriced;
+    $('unpriced').textContent = unpriced > 0
+      ? unpriced + ' 个请求的模型没有配置价格,未计入费用 (设置 claudeProxy.pricing)'
+      : '';
+  }
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.type === 'usage') {
+      rows = message.rows;
+      today = message.today;
+      render();
+    }
+  });
+
+  $('range').addEventListener('change', render);
+  $('bucket').addEventListener('change', render);
+  $('group').addEventListener('change', render);
+  $('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+  vscode.postMessage({ type: 'refresh' });
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,13 @@
+/**
+ * Webview面板的公共工具
+ */
+
+// Content-Security-Policy使用的随机nonce
+export function getNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}